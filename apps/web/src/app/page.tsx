@@ -1,6 +1,6 @@
 "use client";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { orpc } from "@/utils/orpc";
 import { Button } from "@/components/ui/button";
 import {
@@ -19,13 +19,31 @@ import { Badge } from "@/components/ui/badge";
 export default function Home() {
   const queryClient = useQueryClient();
 
-  // Form state for routes and notionals
-  const [routes, setRoutes] = useState([
-    { source: { chainId: "1", assetId: "0xA0b86a33E6442e082877a094f204b01BF645Fe0", symbol: "USDC", decimals: 6 },
-      destination: { chainId: "137", assetId: "0x2791Bca1f2de4661ED88A30C99A7a9449Aa8417", symbol: "USDC", decimals: 6 } }
+  // Form state for routes and notionals - routes are given by symbol and resolved by the provider
+  const [routeSymbols] = useState([
+    { source: { chainId: "1", symbol: "USDC" }, destination: { chainId: "137", symbol: "USDC" } }
   ]);
+  const resolvedAssets = useQuery(
+    orpc.dataProvider.resolveAssets.queryOptions({
+      input: { queries: routeSymbols.flatMap((route) => [route.source, route.destination]) },
+    })
+  );
+  // First candidate wins when a symbol is ambiguous
+  const routes = useMemo(() => {
+    const results = resolvedAssets.data?.results ?? [];
+    return routeSymbols.flatMap((_, index) => {
+      const source = results[index * 2]?.candidates[0];
+      const destination = results[index * 2 + 1]?.candidates[0];
+      return source && destination ? [{ source, destination }] : [];
+    });
+  }, [routeSymbols, resolvedAssets.data]);
   const [notionals, setNotionals] = useState(["1000", "10000"]);
   const [includeWindows, setIncludeWindows] = useState(["24h"]);
+  // Notionals are entered in USD and converted per route by the provider
+  const notionalsUsd = useMemo(
+    () => notionals.map(Number).filter((amount) => Number.isFinite(amount) && amount > 0),
+    [notionals]
+  );
 
   // Health check
   const healthCheck = useQuery(orpc.healthCheck.queryOptions());
@@ -33,24 +51,49 @@ export default function Home() {
   // Plugin ping
   const pluginPing = useQuery(orpc.dataProvider.ping.queryOptions());
 
-  // Snapshot query
+  // Supported chains - maps deBridge chain ids to display names
+  const chainsQuery = useQuery(orpc.dataProvider.getChains.queryOptions());
+  const chainName = useMemo(() => {
+    const names = new Map(
+      (chainsQuery.data?.chains ?? []).map((chain) => [chain.debridgeChainId, chain.name])
+    );
+    return (chainId: string) => names.get(chainId) ?? chainId;
+  }, [chainsQuery.data]);
+
+  // Streamed snapshot query - events accumulate as each piece completes
   const snapshotQuery = useQuery({
-    ...orpc.dataProvider.getSnapshot.queryOptions({
+    ...orpc.dataProvider.streamSnapshot.experimental_streamedOptions({
       input: {
         routes,
-        notionals,
+        notionalsUsd,
         includeWindows: includeWindows as Array<"24h" | "7d" | "30d">,
       },
+      queryFnOptions: { refetchMode: "reset" },
     }),
-    enabled: routes.length > 0 && notionals.length > 0,
+    enabled: routes.length > 0 && notionalsUsd.length > 0,
   });
 
+  // Fold streamed events into the snapshot shape rendered by the cards
+  const snapshot = useMemo(() => {
+    const events = snapshotQuery.data ?? [];
+    return {
+      volumes: events.flatMap((e) => (e.type === "volume" ? [e.data] : [])),
+      rates: events.flatMap((e) => (e.type === "rate" ? [e.data] : [])),
+      liquidity: events.flatMap((e) => (e.type === "liquidity" ? [e.data] : [])),
+      listedAssets: events.find((e) => e.type === "assets")?.data,
+      errors: events.flatMap((e) => (e.type === "error" ? [e.data] : [])),
+      done: events.find((e) => e.type === "done")?.data,
+    };
+  }, [snapshotQuery.data]);
+
+  const isStreaming = snapshotQuery.fetchStatus === "fetching" && !snapshot.done;
+
   const handleFetchSnapshot = () => {
     queryClient.invalidateQueries({
-      queryKey: orpc.dataProvider.getSnapshot.queryKey({
+      queryKey: orpc.dataProvider.streamSnapshot.experimental_streamedKey({
         input: {
           routes,
-          notionals,
+          notionalsUsd,
           includeWindows: includeWindows as Array<"24h" | "7d" | "30d">,
         },
       }),
@@ -115,6 +158,14 @@ export default function Home() {
                 {new Date(pluginPing.data.timestamp).toLocaleTimeString()}
               </p>
             )}
+            {pluginPing.data?.upstreams
+              .filter((rate) => rate.effectiveRequestsPerSecond < rate.configuredRequestsPerSecond)
+              .map((rate) => (
+                <p key={rate.upstream} className="text-xs text-muted-foreground">
+                  Throttled {rate.upstream}: {rate.effectiveRequestsPerSecond.toFixed(1)}/
+                  {rate.configuredRequestsPerSecond} req/s
+                </p>
+              ))}
           </CardContent>
         </Card>
 
@@ -183,9 +234,23 @@ export default function Home() {
               </div>
             </div>
 
-            <Button onClick={handleFetchSnapshot} disabled={routes.length === 0 || notionals.length === 0}>
-              Fetch Snapshot
-            </Button>
+            <div className="flex items-center gap-3">
+              <Button onClick={handleFetchSnapshot} disabled={routes.length === 0 || notionalsUsd.length === 0}>
+                Fetch Snapshot
+              </Button>
+              {isStreaming && (
+                <span className="text-sm text-muted-foreground">
+                  Streaming... {snapshot.rates.length} rates, {snapshot.liquidity.length} liquidity
+                </span>
+              )}
+              {snapshot.done && (
+                <span className="text-sm text-muted-foreground">
+                  Completed in {(snapshot.done.elapsedMs / 1000).toFixed(1)}s
+                  {snapshot.done.meta &&
+                    ` · ${snapshot.done.meta.totalUpstreamCalls} upstream calls, ${snapshot.done.meta.cacheHits} cache hits`}
+                </span>
+              )}
+            </div>
           </CardContent>
         </Card>
 
@@ -198,16 +263,16 @@ export default function Home() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {snapshotQuery.isLoading && (
+            {isStreaming && snapshot.volumes.length === 0 && (
               <div className="space-y-2">
                 <Skeleton className="h-8 w-full" />
                 <Skeleton className="h-8 w-3/4" />
               </div>
             )}
 
-            {snapshotQuery.data?.volumes && (
+            {snapshot.volumes.length > 0 && (
               <div className="space-y-2">
-                {snapshotQuery.data.volumes.map((volume, index) => (
+                {snapshot.volumes.map((volume, index) => (
                   <div key={index} className="flex justify-between items-center p-3 border rounded-lg">
                     <div>
                       <span className="font-medium">{volume.window}</span>
@@ -234,16 +299,9 @@ export default function Home() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {snapshotQuery.isLoading && (
-              <div className="space-y-2">
-                <Skeleton className="h-16 w-full" />
-                <Skeleton className="h-16 w-full" />
-              </div>
-            )}
-
-            {snapshotQuery.data?.rates && (
+            {snapshot.rates.length > 0 && (
               <div className="space-y-3">
-                {snapshotQuery.data.rates.map((rate, index) => (
+                {snapshot.rates.map((rate, index) => (
                   <div key={index} className="p-4 border rounded-lg">
                     <div className="flex justify-between items-start mb-2">
                       <div>
@@ -251,12 +309,21 @@ export default function Home() {
                           {rate.source.symbol} → {rate.destination.symbol}
                         </div>
                         <div className="text-sm text-muted-foreground">
-                          {rate.source.chainId} → {rate.destination.chainId}
+                          {chainName(rate.source.chainId)} → {chainName(rate.destination.chainId)}
                         </div>
                       </div>
-                      <Badge variant="outline">
-                        {rate.effectiveRate.toFixed(4)} rate
-                      </Badge>
+                      <div className="flex gap-2">
+                        {rate.meta && (
+                          <Badge variant="secondary">
+                            {rate.meta.cacheHit
+                              ? `cached ${Math.round((rate.meta.cacheAgeMs ?? 0) / 1000)}s ago`
+                              : `live ${rate.meta.upstreamLatencyMs ?? "?"}ms`}
+                          </Badge>
+                        )}
+                        <Badge variant="outline">
+                          {rate.effectiveRate.toFixed(4)} rate
+                        </Badge>
+                      </div>
                     </div>
 
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
@@ -279,10 +346,38 @@ export default function Home() {
                         </div>
                       </div>
                     </div>
+
+                    {rate.execution && (
+                      <div className="text-xs text-muted-foreground mt-2">
+                        {rate.execution.estimatedSettlementSeconds !== null
+                          ? `~${rate.execution.estimatedSettlementSeconds}s settlement`
+                          : "Settlement time unknown"}
+                        {rate.execution.intermediateToken &&
+                          ` · source swap via ${rate.execution.intermediateToken.symbol}`}
+                        {rate.execution.maxRefundAmount &&
+                          ` · max refund ${rate.execution.maxRefundAmount}`}
+                      </div>
+                    )}
+
+                    {rate.fees && rate.fees.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {rate.fees.map((fee, feeIndex) => (
+                          <Badge key={feeIndex} variant="outline" className="font-mono">
+                            {fee.type}: {fee.amountUsd !== null ? `$${fee.amountUsd.toFixed(4)}` : fee.amount ?? "n/a"}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
             )}
+
+            {isStreaming && (
+              <div className="space-y-2 mt-3">
+                <Skeleton className="h-16 w-full" />
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -295,16 +390,9 @@ export default function Home() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {snapshotQuery.isLoading && (
-              <div className="space-y-2">
-                <Skeleton className="h-12 w-full" />
-                <Skeleton className="h-12 w-full" />
-              </div>
-            )}
-
-            {snapshotQuery.data?.liquidity && (
+            {snapshot.liquidity.length > 0 && (
               <div className="space-y-3">
-                {snapshotQuery.data.liquidity.map((liquidity, index) => (
+                {snapshot.liquidity.map((liquidity, index) => (
                   <div key={index} className="p-4 border rounded-lg">
                     <div className="font-medium mb-3">
                       {liquidity.route.source.symbol} → {liquidity.route.destination.symbol}
@@ -318,16 +406,33 @@ export default function Home() {
                               Max input at {threshold.slippageBps}bps slippage:
                             </span>
                           </div>
-                          <Badge variant="secondary">
-                            ${threshold.maxAmountIn}
-                          </Badge>
+                          <div className="flex gap-2">
+                            <Badge variant="secondary">
+                              ${threshold.maxAmountIn}
+                            </Badge>
+                            {threshold.confidence && (
+                              <Badge variant="outline">{threshold.confidence}</Badge>
+                            )}
+                          </div>
                         </div>
                       ))}
                     </div>
+
+                    {liquidity.probeCount !== undefined && (
+                      <div className="text-xs text-muted-foreground mt-2">
+                        {liquidity.probeCount} quote probes
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
             )}
+
+            {isStreaming && (
+              <div className="space-y-2 mt-3">
+                <Skeleton className="h-12 w-full" />
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -340,20 +445,20 @@ export default function Home() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {snapshotQuery.isLoading && (
+            {isStreaming && !snapshot.listedAssets && (
               <div className="space-y-2">
                 <Skeleton className="h-8 w-full" />
                 <Skeleton className="h-8 w-3/4" />
               </div>
             )}
 
-            {snapshotQuery.data?.listedAssets && (
+            {snapshot.listedAssets && (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                {snapshotQuery.data.listedAssets.assets.map((asset, index) => (
+                {snapshot.listedAssets.assets.map((asset, index) => (
                   <div key={index} className="p-3 border rounded-lg">
                     <div className="font-medium">{asset.symbol}</div>
                     <div className="text-sm text-muted-foreground">
-                      Chain: {asset.chainId}
+                      Chain: {chainName(asset.chainId)}
                     </div>
                     <div className="text-sm text-muted-foreground">
                       Decimals: {asset.decimals}
@@ -368,6 +473,38 @@ export default function Home() {
           </CardContent>
         </Card>
 
+        {/* Failed Items */}
+        {snapshot.errors.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Failed Items</CardTitle>
+              <CardDescription>
+                Rates, liquidity and intelligence probes the provider could not serve
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {snapshot.errors.map((error, index) => (
+                  <div key={index} className="flex justify-between items-center p-3 border rounded-lg">
+                    <div>
+                      <div className="font-medium">
+                        {error.route.source.symbol} → {error.route.destination.symbol}
+                        <span className="text-sm text-muted-foreground ml-2">
+                          {error.stage}{error.notional ? ` @ ${error.notional}` : ""}
+                        </span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">{error.message}</div>
+                    </div>
+                    <Badge variant="destructive">
+                      {error.category}{error.upstreamStatus ? ` (${error.upstreamStatus})` : ""}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {snapshotQuery.error && (
           <Card>
             <CardContent className="pt-6">
@@ -8,6 +8,11 @@ export const appRouter = publicProcedure.router({
 	}),
 	dataProvider: {
 		getSnapshot: dataProviderRouter.getSnapshot,
+		streamSnapshot: dataProviderRouter.streamSnapshot,
+		getVolumeHistory: dataProviderRouter.getVolumeHistory,
+		resolveAssets: dataProviderRouter.resolveAssets,
+		getOrder: dataProviderRouter.getOrder,
+		getChains: dataProviderRouter.getChains,
 		ping: dataProviderRouter.ping,
 	},
 });
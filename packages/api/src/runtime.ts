@@ -1,14 +1,14 @@
 import { createPluginRuntime, type PluginBinding } from "every-plugin";
 
-import type DataProviderTemplatePlugin from "@every-plugin/template";
+import type DeBridgeDataProviderPlugin from "@near-intents/debridge-data-provider";
 
 type AppBindings = {
-  "@every-plugin/template": PluginBinding<typeof DataProviderTemplatePlugin>;
+  "@near-intents/debridge-data-provider": PluginBinding<typeof DeBridgeDataProviderPlugin>;
 };
 
 const runtime = createPluginRuntime<AppBindings>({
   registry: {
-    "@every-plugin/template": {
+    "@near-intents/debridge-data-provider": {
       remoteUrl: "http://localhost:3014/remoteEntry.js",
     },
   },
@@ -17,10 +17,15 @@ const runtime = createPluginRuntime<AppBindings>({
   },
 });
 
-export const { router: dataProviderRouter } = await runtime.usePlugin("@every-plugin/template", {
+export const { router: dataProviderRouter } = await runtime.usePlugin("@near-intents/debridge-data-provider", {
   variables: {
-    baseUrl: process.env.DATA_PROVIDER_BASE_URL || "https://api.example.com",
-    timeout: Number(process.env.DATA_PROVIDER_TIMEOUT) || 10000,
+    baseUrl: process.env.DATA_PROVIDER_BASE_URL || "https://dln.debridge.finance/v1.0",
+    defillamaBaseUrl: process.env.DATA_PROVIDER_DEFILLAMA_BASE_URL || "https://bridges.llama.fi",
+    priceBaseUrl: process.env.DATA_PROVIDER_PRICE_BASE_URL || "https://coins.llama.fi",
+    dlnStatsBaseUrl: process.env.DATA_PROVIDER_DLN_STATS_BASE_URL || "https://stats-api.dln.trade",
+    timeout: Number(process.env.DATA_PROVIDER_TIMEOUT) || 30000,
+    maxRequestsPerSecond: Number(process.env.DATA_PROVIDER_MAX_RPS) || 10,
+    maxConcurrency: Number(process.env.DATA_PROVIDER_MAX_CONCURRENCY) || 5,
   },
   secrets: { apiKey: "{{DATA_PROVIDER_API_KEY}}" },
 });
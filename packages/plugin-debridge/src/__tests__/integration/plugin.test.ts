@@ -1,6 +1,6 @@
 import type { PluginRegistry } from "every-plugin";
 import { createLocalPluginRuntime } from "every-plugin/testing";
-import { beforeAll, describe, expect, it } from "vitest";
+import { beforeAll, describe, expect, it, vi } from "vitest";
 import DeBridgeDataProviderPlugin from "../../index";
 
 // Mock route for testing
@@ -226,6 +226,75 @@ describe("deBridge Data Provider Plugin - Integration Tests", () => {
       ).rejects.toThrow();
     });
 
+    it("should reject invalid requests with BAD_REQUEST and field paths", async () => {
+      const { client } = await runtime.usePlugin("@near-intents/debridge-data-provider", TEST_CONFIG);
+
+      await expect(
+        client.getSnapshot({
+          routes: [{ source: mockRoute.source, destination: mockRoute.source }],
+          notionals: ["-1"]
+        })
+      ).rejects.toMatchObject({
+        code: "BAD_REQUEST",
+        data: {
+          invalidFields: expect.arrayContaining(["notionals[0]", "routes[0]"]),
+        },
+      });
+    });
+
+    it("should map upstream rate limits to RATE_LIMITED with retryAfter", async () => {
+      const { client } = await runtime.usePlugin("@near-intents/debridge-data-provider", TEST_CONFIG);
+
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async () => new Response("slow down", { status: 429, headers: { "retry-after": "0" } }))
+      );
+      try {
+        await expect(client.getOrder({ orderId: "0x1" })).rejects.toMatchObject({
+          code: "RATE_LIMITED",
+          data: { retryAfter: 0 },
+        });
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it("should map upstream 4xx rejections to NOT_FOUND and BAD_REQUEST instead of SERVICE_UNAVAILABLE", async () => {
+      const { client } = await runtime.usePlugin("@near-intents/debridge-data-provider", TEST_CONFIG);
+
+      try {
+        vi.stubGlobal("fetch", vi.fn(async () => new Response("gone", { status: 404 })));
+        await expect(
+          client.getVolumeHistory({ startDate: "2025-01-01", endDate: "2025-01-02" })
+        ).rejects.toMatchObject({
+          code: "NOT_FOUND",
+          data: { resource: "/bridgevolume/all" },
+        });
+
+        vi.stubGlobal("fetch", vi.fn(async () => new Response("bad order id", { status: 400 })));
+        await expect(client.getOrder({ orderId: "0x1" })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it("should map upstream 401 to UNAUTHORIZED and 403 to FORBIDDEN", async () => {
+      const { client } = await runtime.usePlugin("@near-intents/debridge-data-provider", TEST_CONFIG);
+
+      try {
+        vi.stubGlobal("fetch", vi.fn(async () => new Response("bad key", { status: 401 })));
+        await expect(client.getOrder({ orderId: "0x1" })).rejects.toMatchObject({
+          code: "UNAUTHORIZED",
+          data: { provider: "deBridge", authType: "apiKey" },
+        });
+
+        vi.stubGlobal("fetch", vi.fn(async () => new Response("no access", { status: 403 })));
+        await expect(client.getOrder({ orderId: "0x1" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
     it("should work with large notional amounts", async () => {
       const { client } = await runtime.usePlugin("@near-intents/debridge-data-provider", TEST_CONFIG);
 
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { caipFieldsOf, fromCaip19, fromCaip2, toCaip19, toCaip2 } from "../../utils/caip";
+
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const SOLANA = "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp";
+
+describe("CAIP mapping", () => {
+  it("should map EVM chains and ERC-20 assets both ways", () => {
+    expect(toCaip2("1")).toBe("eip155:1");
+    expect(toCaip19("1", "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48")).toBe(
+      "eip155:1/erc20:0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48"
+    );
+    expect(fromCaip19("eip155:137/erc20:0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359")).toEqual({
+      chainId: "137",
+      assetId: "0x3c499c542cef5e3811e1192ce70d8cc03d5c3359",
+    });
+  });
+
+  it("should map deBridge internal chain ids to their EIP-155 ids", () => {
+    expect(toCaip2("100000002")).toBe("eip155:100");
+    expect(fromCaip2("eip155:100")).toBe("100000002");
+    expect(toCaip2("100000999")).toBeNull();
+    expect(fromCaip2("eip155:100000002")).toBeNull();
+  });
+
+  it("should map deBridge's Solana id to the Solana CAIP-2 id and never to eip155", () => {
+    expect(toCaip2("7565164")).toBe(SOLANA);
+    expect(fromCaip2(SOLANA)).toBe("7565164");
+    expect(fromCaip2("eip155:7565164")).toBeNull();
+    expect(fromCaip19("eip155:7565164/erc20:0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48")).toBeNull();
+  });
+
+  it("should map Solana SPL tokens and native SOL without changing case", () => {
+    expect(toCaip19("7565164", USDC_MINT)).toBe(`${SOLANA}/token:${USDC_MINT}`);
+    expect(fromCaip19(`${SOLANA}/token:${USDC_MINT}`)).toEqual({ chainId: "7565164", assetId: USDC_MINT });
+    expect(fromCaip19(`${SOLANA}/slip44:501`)).toEqual({
+      chainId: "7565164",
+      assetId: "11111111111111111111111111111111",
+    });
+  });
+
+  it("should map native EVM coins to slip44 and reject mismatches", () => {
+    expect(caipFieldsOf("1", "0x0000000000000000000000000000000000000000")).toEqual({
+      caip2: "eip155:1",
+      caip19: "eip155:1/slip44:60",
+    });
+    expect(fromCaip19("eip155:1/slip44:501")).toBeNull();
+    expect(fromCaip19("eip155:1/token:0xabc")).toBeNull();
+    expect(fromCaip19("cosmos:cosmoshub-4/slip44:118")).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  canonicalAssetId,
+  chainFamilyOf,
+  isNativeAsset,
+  nativeWrappingOf,
+  NATIVE_TOKEN_ADDRESS,
+  normalizeAddress,
+  SOLANA_CHAIN_ID,
+  SOLANA_NATIVE_MINT,
+} from "../../utils/chains";
+import { priceKey } from "../../utils/price";
+
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+describe("chain-family address normalization", () => {
+  it("should lowercase EVM hex addresses", () => {
+    expect(chainFamilyOf("1")).toBe("evm");
+    expect(normalizeAddress("1", " 0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48 ")).toBe(
+      "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48"
+    );
+  });
+
+  it("should keep Solana base58 mints untouched", () => {
+    expect(chainFamilyOf(SOLANA_CHAIN_ID)).toBe("solana");
+    expect(normalizeAddress(SOLANA_CHAIN_ID, USDC_MINT)).toBe(USDC_MINT);
+    expect(priceKey({ chainId: SOLANA_CHAIN_ID, address: USDC_MINT })).toBe(`${SOLANA_CHAIN_ID}:${USDC_MINT}`);
+  });
+
+  it("should not lowercase non-hex identifiers on EVM-family chains", () => {
+    expect(normalizeAddress("100000026", "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t")).toBe("TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t");
+  });
+});
+
+describe("native and wrapped equivalence", () => {
+  const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+
+  it("should map the 0xEeee alias to the zero address on EVM chains", () => {
+    expect(canonicalAssetId("1", "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE")).toBe(NATIVE_TOKEN_ADDRESS);
+    expect(isNativeAsset("1", "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE")).toBe(true);
+    expect(isNativeAsset(SOLANA_CHAIN_ID, SOLANA_NATIVE_MINT)).toBe(true);
+    expect(isNativeAsset(SOLANA_CHAIN_ID, NATIVE_TOKEN_ADDRESS)).toBe(false);
+  });
+
+  it("should carry both identities for native coins and wrapped tokens only", () => {
+    const identity = { nativeAssetId: NATIVE_TOKEN_ADDRESS, wrappedAssetId: WETH.toLowerCase() };
+    expect(nativeWrappingOf("1", NATIVE_TOKEN_ADDRESS)).toEqual(identity);
+    expect(nativeWrappingOf("1", WETH)).toEqual(identity);
+    expect(nativeWrappingOf(SOLANA_CHAIN_ID, "So11111111111111111111111111111111111111112")).toEqual({
+      nativeAssetId: SOLANA_NATIVE_MINT,
+      wrappedAssetId: "So11111111111111111111111111111111111111112",
+    });
+    expect(nativeWrappingOf("1", "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48")).toBeNull();
+  });
+});
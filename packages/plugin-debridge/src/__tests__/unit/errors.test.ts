@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  CircuitOpenError,
+  classifyError,
+  createHttpError,
+  ForbiddenError,
+  HttpError,
+  NoRouteError,
+  parseRetryAfter,
+  RateLimitedError,
+  TimeoutError,
+  UnauthorizedError,
+  UpstreamUnavailableError,
+} from "../../utils/errors";
+import { CircuitBreaker } from "../../utils/cache";
+import { HttpClient } from "../../utils/http";
+
+describe("upstream error taxonomy", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should type HTTP errors by status", () => {
+    const url = "http://localhost:4021";
+
+    const limited = createHttpError(429, url, "HTTP 429", 5000);
+    expect(limited).toBeInstanceOf(RateLimitedError);
+    expect((limited as RateLimitedError).retryAfterMs).toBe(5000);
+    expect(createHttpError(401, url)).toBeInstanceOf(UnauthorizedError);
+    expect(createHttpError(403, url)).toBeInstanceOf(ForbiddenError);
+    expect(createHttpError(503, url)).toBeInstanceOf(UpstreamUnavailableError);
+
+    const notFound = createHttpError(404, url);
+    expect(notFound).toBeInstanceOf(HttpError);
+    expect(notFound.constructor).toBe(HttpError);
+  });
+
+  it("should parse Retry-After as seconds or an HTTP date", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+
+    expect(parseRetryAfter("7")).toBe(7000);
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:30 GMT", now)).toBe(30000);
+    expect(parseRetryAfter("soon")).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+
+  it("should classify each member of the taxonomy", () => {
+    const url = "http://localhost:4021";
+
+    expect(classifyError(new RateLimitedError(url)).category).toBe("rate_limited");
+    expect(classifyError(new UnauthorizedError(401, url)).category).toBe("unauthorized");
+    expect(classifyError(new ForbiddenError(url))).toMatchObject({ category: "unauthorized", status: 403 });
+    expect(classifyError(new NoRouteError(400, url))).toMatchObject({ category: "no_route", status: 400 });
+    expect(classifyError(new UpstreamUnavailableError(502, url)).category).toBe("upstream_5xx");
+    expect(classifyError(new TimeoutError()).category).toBe("timeout");
+    expect(classifyError(new CircuitOpenError()).category).toBe("circuit_open");
+  });
+
+  it("should report how long an open circuit stays open", async () => {
+    const breaker = new CircuitBreaker(1, 10_000);
+    await expect(breaker.execute(() => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+
+    const error = await breaker.execute(() => Promise.resolve("ok")).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).retryAfterMs).toBeGreaterThan(9000);
+  });
+
+  it("should leave the circuit closed for errors excluded from the failure count", async () => {
+    const breaker = new CircuitBreaker(1, 10_000, 2, (error) => !(error instanceof NoRouteError));
+    const noRoute = new NoRouteError(400, "http://localhost:4021");
+
+    await expect(breaker.execute(() => Promise.reject(noRoute))).rejects.toBe(noRoute);
+    await expect(breaker.execute(() => Promise.resolve("ok"))).resolves.toBe("ok");
+  });
+
+  it("should keep the rate limit type and Retry-After through HttpClient retries", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("slow down", { status: 429, headers: { "retry-after": "0" } }))
+    );
+
+    const error = await new HttpClient()
+      .fetchWithRetry("dln", "http://localhost:4021/limited", {}, 1, 0)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).retryAfterMs).toBe(0);
+    expect((error as RateLimitedError).message).toContain("Request failed after 2 attempts");
+  });
+
+  it("should keep 5xx responses typed as upstream unavailable", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("down", { status: 503 })));
+
+    const error = await new HttpClient()
+      .fetchWithRetry("dln", "http://localhost:4021/down", {}, 0, 0)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UpstreamUnavailableError);
+    expect((error as UpstreamUnavailableError).status).toBe(503);
+  });
+});
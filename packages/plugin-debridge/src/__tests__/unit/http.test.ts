@@ -0,0 +1,191 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HttpError, RateLimitedError, TimeoutError, UnauthorizedError } from "../../utils/errors";
+import { DEFAULT_UPSTREAM_PROFILES, HttpClient } from "../../utils/http";
+
+const json = () =>
+  new Response(JSON.stringify({ ok: true }), { status: 200, headers: { "content-type": "application/json" } });
+
+describe("HttpClient", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should merge profile overrides with the defaults", () => {
+    const http = new HttpClient({ dln: { requestsPerSecond: 2 } });
+
+    expect(http.profile("dln")).toEqual({ ...DEFAULT_UPSTREAM_PROFILES.dln, requestsPerSecond: 2 });
+    expect(http.profile("defillama")).toEqual(DEFAULT_UPSTREAM_PROFILES.defillama);
+  });
+
+  it("should space requests by the upstream's rate without slowing other upstreams", async () => {
+    const startedAt: Record<string, number[]> = { dln: [], defillama: [] };
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: string | URL | Request) => {
+        startedAt[String(input).includes("dln") ? "dln" : "defillama"].push(Date.now());
+        return json();
+      })
+    );
+    const http = new HttpClient({ dln: { requestsPerSecond: 10 }, defillama: { requestsPerSecond: 100 } });
+
+    await Promise.all([
+      ...[1, 2, 3].map(() => http.send("dln", "http://localhost:4022/dln")),
+      http.send("defillama", "http://localhost:4022/llama"),
+    ]);
+
+    expect(startedAt.dln[2] - startedAt.dln[0]).toBeGreaterThanOrEqual(190); // 100ms apart
+    expect(startedAt.defillama[0]).toBeLessThan(startedAt.dln[1]); // not queued behind DLN
+  });
+
+  it("should cap requests in flight per upstream", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        inFlight--;
+        return json();
+      })
+    );
+    const http = new HttpClient({ tokenList: { maxConcurrent: 2, requestsPerSecond: 100 } });
+
+    await Promise.all(Array.from({ length: 6 }, () => http.send("tokenList", "http://localhost:4022/tokens")));
+
+    expect(peak).toBe(2);
+  });
+
+  it("should count every retry attempt against the budget", async () => {
+    const startedAt: number[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        startedAt.push(Date.now());
+        return startedAt.length < 3 ? new Response("down", { status: 503 }) : json();
+      })
+    );
+    const http = new HttpClient({ dlnStats: { requestsPerSecond: 5, maxRetries: 2, retryBaseDelayMs: 0 } });
+
+    await expect(http.fetchWithRetry("dlnStats", "http://localhost:4022/orders")).resolves.toEqual({ ok: true });
+    expect(startedAt).toHaveLength(3);
+    expect(startedAt[2] - startedAt[0]).toBeGreaterThanOrEqual(390); // 200ms apart despite no backoff
+  });
+
+  it("should not retry rejected requests", async () => {
+    let status = 401;
+    const fetchMock = vi.fn(async () => new Response("rejected", { status }));
+    vi.stubGlobal("fetch", fetchMock);
+    const http = new HttpClient({ dln: { requestsPerSecond: 100, maxRetries: 3, retryBaseDelayMs: 0 } });
+
+    await expect(http.fetchWithRetry("dln", "http://localhost:4022/quote")).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    status = 404;
+    const error = await http.fetchWithRetry("dln", "http://localhost:4022/quote").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should serve queued interactive requests before liquidity and background ones", async () => {
+    const served: string[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: string | URL | Request) => {
+        const path = new URL(String(input)).pathname.slice(1);
+        served.push(path);
+        if (path === "background-1") await new Promise((resolve) => setTimeout(resolve, 30));
+        return json();
+      })
+    );
+    const http = new HttpClient({ dln: { requestsPerSecond: 100, maxConcurrent: 1 } });
+
+    await Promise.all([
+      http.send("dln", "http://localhost:4022/background-1", { lane: "background" }),
+      http.send("dln", "http://localhost:4022/background-2", { lane: "background" }),
+      http.send("dln", "http://localhost:4022/liquidity", { lane: "liquidity" }),
+      http.send("dln", "http://localhost:4022/interactive"),
+    ]);
+
+    // The first request holds the only slot while the others queue up
+    expect(served).toEqual(["background-1", "interactive", "liquidity", "background-2"]);
+  });
+
+  it("should halve the rate once per burst of 429s and pause for Retry-After", async () => {
+    let retryAfter: string | null = null;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        new Response("slow down", { status: 429, headers: retryAfter ? { "retry-after": retryAfter } : {} })
+      )
+    );
+    const http = new HttpClient({ dln: { requestsPerSecond: 100, maxConcurrent: 5 } });
+
+    await Promise.all([1, 2, 3].map(() => http.send("dln", "http://localhost:4022/limited")));
+    expect(http.rates()[0]).toMatchObject({
+      upstream: "dln",
+      configuredRequestsPerSecond: 100,
+      effectiveRequestsPerSecond: 50,
+      pausedUntil: null,
+    });
+
+    retryAfter = "30";
+    await http.send("dln", "http://localhost:4022/limited");
+    expect(http.rates()[0].pausedUntil).toBeGreaterThan(Date.now() + 25_000);
+  });
+
+  it("should fail fast instead of waiting out a long Retry-After", async () => {
+    const fetchMock = vi.fn(async () => new Response("slow down", { status: 429, headers: { "retry-after": "3600" } }));
+    vi.stubGlobal("fetch", fetchMock);
+    const http = new HttpClient({ dln: { requestsPerSecond: 100 } });
+    const startedAt = Date.now();
+
+    await expect(http.fetchWithRetry("dln", "http://localhost:4022/limited")).rejects.toEqual(
+      expect.objectContaining({ constructor: RateLimitedError, retryAfterMs: 3_600_000 })
+    );
+
+    // Later requests don't sit in the limiter for an hour either
+    await expect(http.send("dln", "http://localhost:4022/limited")).rejects.toEqual(
+      expect.objectContaining({ constructor: RateLimitedError, retryAfterMs: expect.any(Number) })
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it("should probe back up to the configured rate on success", async () => {
+    let limited = true;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => (limited ? new Response("slow down", { status: 429 }) : json()))
+    );
+    const http = new HttpClient({ dln: { requestsPerSecond: 100 } });
+    const effectiveRate = () => http.rates().find((rate) => rate.upstream === "dln")?.effectiveRequestsPerSecond;
+
+    await http.send("dln", "http://localhost:4022/limited");
+    expect(effectiveRate()).toBe(50);
+
+    limited = false;
+    await http.send("dln", "http://localhost:4022/ok");
+    expect(effectiveRate()).toBe(55); // +5% of the configured rate per success
+
+    for (let i = 0; i < 12; i++) await http.send("dln", "http://localhost:4022/ok");
+    expect(effectiveRate()).toBe(100);
+  });
+
+  it("should fail with TimeoutError after the profile's timeout", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        (_input: string | URL | Request, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+          })
+      )
+    );
+    const http = new HttpClient({ dln: { timeoutMs: 50 } });
+
+    await expect(http.send("dln", "http://localhost:4022/slow")).rejects.toBeInstanceOf(TimeoutError);
+  });
+});
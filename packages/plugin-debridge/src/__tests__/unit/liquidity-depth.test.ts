@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { searchLiquidityDepth } from "../../utils/depth";
+
+// Rate degrades linearly with size: 1bp of slippage per `bpsUnit` of input
+const linearProbe = (baselineRate: number, bpsUnit: bigint, capacity?: bigint) =>
+  async (amountIn: bigint): Promise<number | null> => {
+    if (capacity !== undefined && amountIn > capacity) return null;
+    return baselineRate * (1 - Number(amountIn / bpsUnit) / 10_000);
+  };
+
+describe("searchLiquidityDepth", () => {
+  it("should bracket each threshold and converge", async () => {
+    const result = await searchLiquidityDepth({
+      baselineAmount: 1_000n,
+      baselineRate: 1,
+      thresholdsBps: [100, 50],
+      maxProbes: 40,
+      probe: linearProbe(1, 10_000n),
+    });
+
+    expect(result.thresholds.map((t) => t.slippageBps)).toEqual([50, 100]);
+    const [at50, at100] = result.thresholds;
+
+    // 50bps is reached at 500k, 100bps at 1M
+    expect(at50.confidence).toBe("high");
+    expect(at50.maxAmountIn).toBeLessThanOrEqual(510_000n);
+    expect(at50.maxAmountIn).toBeGreaterThan(450_000n);
+    expect(at50.upperBoundAmountIn).not.toBeNull();
+
+    expect(at100.confidence).toBe("high");
+    expect(at100.maxAmountIn).toBeLessThanOrEqual(1_010_000n);
+    expect(at100.maxAmountIn).toBeGreaterThan(900_000n);
+    expect(at100.maxAmountIn).toBeGreaterThanOrEqual(at50.maxAmountIn);
+  });
+
+  it("should treat rejected sizes as beyond the threshold", async () => {
+    const result = await searchLiquidityDepth({
+      baselineAmount: 1_000n,
+      baselineRate: 1,
+      thresholdsBps: [50],
+      maxProbes: 40,
+      probe: linearProbe(1, 1_000_000_000n, 200_000n),
+    });
+
+    const [at50] = result.thresholds;
+    expect(at50.maxAmountIn).toBeLessThanOrEqual(200_000n);
+    expect(at50.upperBoundAmountIn).not.toBeNull();
+    expect(at50.upperBoundAmountIn!).toBeGreaterThan(200_000n);
+  });
+
+  it("should report the search ceiling with medium confidence when slippage never breaches", async () => {
+    const result = await searchLiquidityDepth({
+      baselineAmount: 1_000n,
+      baselineRate: 1,
+      thresholdsBps: [50],
+      maxProbes: 40,
+      maxMultiplier: 1_000n,
+      probe: async () => 1,
+    });
+
+    expect(result.thresholds[0]).toEqual({
+      slippageBps: 50,
+      maxAmountIn: 1_000_000n,
+      upperBoundAmountIn: null,
+      confidence: "medium",
+    });
+  });
+
+  it("should respect the probe budget and lower confidence", async () => {
+    let calls = 0;
+    const result = await searchLiquidityDepth({
+      baselineAmount: 1_000n,
+      baselineRate: 1,
+      thresholdsBps: [50, 100],
+      maxProbes: 2,
+      probe: async (amountIn) => {
+        calls++;
+        return linearProbe(1, 10_000n)(amountIn);
+      },
+    });
+
+    expect(calls).toBe(2);
+    expect(result.probeCount).toBe(2);
+    expect(result.thresholds.every((t) => t.confidence === "low")).toBe(true);
+  });
+
+  it("should stop probing after an inconclusive failure", async () => {
+    let calls = 0;
+    const result = await searchLiquidityDepth({
+      baselineAmount: 1_000n,
+      baselineRate: 1,
+      thresholdsBps: [50, 100],
+      maxProbes: 40,
+      probe: async () => {
+        calls++;
+        throw new Error("HTTP 503");
+      },
+    });
+
+    expect(calls).toBe(1);
+    expect(result.thresholds.map((t) => t.maxAmountIn)).toEqual([1_000n, 1_000n]);
+    expect(result.thresholds.every((t) => t.confidence === "low")).toBe(true);
+  });
+
+  it("should reject a non-positive baseline rate", async () => {
+    await expect(
+      searchLiquidityDepth({
+        baselineAmount: 1_000n,
+        baselineRate: 0,
+        thresholdsBps: [50],
+        maxProbes: 10,
+        probe: async () => 1,
+      })
+    ).rejects.toThrow();
+  });
+});
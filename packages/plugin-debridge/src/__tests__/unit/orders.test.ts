@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DlnOrdersClient } from "../../utils/orders";
+
+const rawOrder = (i: number) => ({
+  orderId: { stringValue: `0x${i.toString(16)}` },
+  creationTimestamp: 1700000000 + i,
+  state: "ClaimedUnlock",
+  giveOfferWithMetadata: {
+    chainId: { bigIntegerValue: 1, stringValue: "1" },
+    tokenAddress: { stringValue: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48" },
+    amount: { bigIntegerValue: 1000000, stringValue: "1000000" },
+    metadata: { decimals: 6, symbol: "USDC" },
+  },
+  takeOfferWithMetadata: {
+    chainId: { bigIntegerValue: 137 },
+    tokenAddress: { stringValue: "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174" },
+    amount: { stringValue: "995000" },
+    metadata: { decimals: 6, symbol: "USDC" },
+  },
+});
+
+function stubOrders(total: number) {
+  const all = Array.from({ length: total }, (_, i) => rawOrder(i));
+  const fetchMock = vi.fn(async (_input: string | URL | Request, init?: RequestInit) => {
+    const { skip, take } = JSON.parse(String(init?.body));
+    return new Response(
+      JSON.stringify({ orders: all.slice(skip, skip + take), totalCount: all.length }),
+      { status: 200, headers: { "content-type": "application/json" } }
+    );
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("DlnOrdersClient", () => {
+  const from = new Date("2024-01-01T00:00:00Z");
+  const to = new Date("2024-01-02T00:00:00Z");
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should page until totalCount and unwrap order fields", async () => {
+    const fetchMock = stubOrders(25);
+    const client = new DlnOrdersClient("http://localhost:4020", 10);
+
+    const { orders, truncated } = await client.listFulfilledOrders(from, to);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(String(fetchMock.mock.calls[0][0])).toBe("http://localhost:4020/api/Orders/filteredList");
+    expect(truncated).toBe(false);
+    expect(orders).toHaveLength(25);
+    expect(orders[0]).toMatchObject({
+      orderId: "0x0",
+      giveChainId: "1",
+      takeChainId: "137",
+      giveAmount: "1000000",
+      takeAmount: "995000",
+      giveDecimals: 6,
+      status: "ClaimedUnlock",
+    });
+
+    const body = JSON.parse(String(fetchMock.mock.calls[1][1]?.body));
+    expect(body.skip).toBe(10);
+    expect(body.creationTimestampFrom).toBe(from.getTime() / 1000);
+  });
+
+  it("should flag truncation when the page limit is reached", async () => {
+    stubOrders(50);
+    const client = new DlnOrdersClient(undefined, 10, 2);
+
+    const { orders, truncated } = await client.listFulfilledOrders(from, to);
+
+    expect(orders).toHaveLength(20);
+    expect(truncated).toBe(true);
+  });
+});
+
+describe("DlnOrdersClient lookups", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should resolve a transaction to its orders and parse event metadata", async () => {
+    const order = {
+      ...rawOrder(1),
+      createdSrcEventMetadata: { transactionHash: { stringValue: "0xsrc" }, blockTimestamp: 1700000001 },
+      fulfilledDstEventMetadata: { transactionHash: { stringValue: "0xdst" }, blockTimestamp: 1700000031 },
+    };
+    const fetchMock = vi.fn(async (input: string | URL | Request) => {
+      const url = String(input);
+      const body = url.endsWith("/orderIds") ? { orderIds: [{ stringValue: "0x1" }] } : order;
+      return new Response(JSON.stringify(body), { status: 200, headers: { "content-type": "application/json" } });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new DlnOrdersClient("http://localhost:4020");
+
+    const ids = await client.getOrderIdsByTransaction("0xsrc");
+    const found = await client.getOrder(ids[0]!);
+
+    expect(ids).toEqual(["0x1"]);
+    expect(String(fetchMock.mock.calls[0][0])).toBe("http://localhost:4020/api/Transaction/0xsrc/orderIds");
+    expect(String(fetchMock.mock.calls[1][0])).toBe("http://localhost:4020/api/Orders/0x1");
+    expect(found).toMatchObject({
+      orderId: "0x1",
+      giveSymbol: "USDC",
+      sourceTxHash: "0xsrc",
+      fulfillTxHash: "0xdst",
+      fulfilledAt: "2023-11-14T22:13:51.000Z",
+    });
+  });
+
+  it("should return null for an order the stats API does not know", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("not found", { status: 404 })));
+    const client = new DlnOrdersClient("http://localhost:4020");
+
+    await expect(client.getOrder("0xmissing")).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { mapWithConcurrency } from "../../utils/pool";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("mapWithConcurrency", () => {
+  it("should keep input order when later items finish first", async () => {
+    const results = await mapWithConcurrency([30, 10, 20, 0], 4, async (ms, index) => {
+      await delay(ms);
+      return `${index}:${ms}`;
+    });
+
+    expect(results).toEqual(["0:30", "1:10", "2:20", "3:0"]);
+  });
+
+  it("should cap the calls in flight", async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      peak = Math.max(peak, ++inFlight);
+      await delay(10);
+      inFlight--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it("should overlap work instead of running it serially", async () => {
+    const startedAt = Date.now();
+    await mapWithConcurrency(Array.from({ length: 6 }, (_, i) => i), 6, () => delay(50));
+
+    expect(Date.now() - startedAt).toBeLessThan(200); // 300ms serially
+  });
+
+  it("should reject with the first failure and stop handing out work", async () => {
+    const started: number[] = [];
+
+    const result = mapWithConcurrency([1, 2, 3, 4, 5], 1, async (item) => {
+      started.push(item);
+      if (item === 2) throw new Error("boom");
+      return item;
+    });
+
+    await expect(result).rejects.toThrow("boom");
+    expect(started).toEqual([1, 2]);
+  });
+
+  it("should stop starting items once the signal aborts", async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+
+    const result = mapWithConcurrency(
+      [1, 2, 3, 4, 5],
+      2,
+      async (item) => {
+        started.push(item);
+        if (item === 2) controller.abort(new Error("client gone"));
+        await delay(5);
+        return item;
+      },
+      controller.signal
+    );
+
+    await expect(result).rejects.toThrow("client gone");
+    expect(started).toEqual([1, 2]);
+  });
+
+  it("should handle an empty list", async () => {
+    await expect(mapWithConcurrency([], 5, async () => 1)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DefiLlamaPriceProvider, NATIVE_TOKEN_ADDRESS, priceKey } from "../../utils/price";
+
+const USDC = { chainId: "1", address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48" };
+const ETH = { chainId: "1", address: NATIVE_TOKEN_ADDRESS };
+const BASE_ETH = { chainId: "8453", address: NATIVE_TOKEN_ADDRESS };
+
+function stubPrices(coins: Record<string, { price: number; decimals?: number }>) {
+  const fetchMock = vi.fn(async (_input: string | URL | Request) =>
+    new Response(JSON.stringify({ coins }), { status: 200, headers: { "content-type": "application/json" } })
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("DefiLlamaPriceProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should batch lookups into one request against the configured base URL", async () => {
+    const fetchMock = stubPrices({
+      "ethereum:0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48": { price: 0.9998, decimals: 6 },
+      "coingecko:ethereum": { price: 3000 },
+    });
+    const provider = new DefiLlamaPriceProvider("http://localhost:4010/");
+
+    const prices = await provider.getUsdPrices([USDC, ETH, BASE_ETH]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const url = String(fetchMock.mock.calls[0][0]);
+    expect(url.startsWith("http://localhost:4010/prices/current/")).toBe(true);
+
+    expect(prices.get(priceKey(USDC))).toEqual({ priceUsd: 0.9998, decimals: 6, source: "/prices/current" });
+    // Native coins carry the chain's native decimals, and L2s share the ETH price
+    expect(prices.get(priceKey(ETH))).toEqual({ priceUsd: 3000, decimals: 18, source: "/prices/current" });
+    expect(prices.get(priceKey(BASE_ETH))?.priceUsd).toBe(3000);
+  });
+
+  it("should serve repeated lookups from cache", async () => {
+    const fetchMock = stubPrices({ "coingecko:ethereum": { price: 3000 } });
+    const provider = new DefiLlamaPriceProvider();
+
+    await provider.getUsdPrices([ETH]);
+    const prices = await provider.getUsdPrices([ETH]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(prices.get(priceKey(ETH))?.priceUsd).toBe(3000);
+  });
+
+  it("should omit tokens the oracle cannot price", async () => {
+    const fetchMock = stubPrices({});
+    const provider = new DefiLlamaPriceProvider();
+
+    const prices = await provider.getUsdPrices([USDC, { chainId: "999999", address: "0xabc" }]);
+
+    // Unknown chains are never requested
+    expect(String(fetchMock.mock.calls[0][0])).not.toContain("0xabc");
+    expect(prices.size).toBe(0);
+  });
+});
@@ -101,10 +101,10 @@ describe("Route Intelligence - Unique Feature", () => {
   });
 
   it("should handle intelligence analysis gracefully on API errors", async () => {
-    // Use an invalid route to trigger errors
+    // Use an unknown token on a supported chain to trigger quote errors
     const invalidRoute = {
       source: {
-        chainId: "999999",
+        chainId: "1",
         assetId: "0xinvalid",
         symbol: "INVALID",
         decimals: 18
@@ -129,5 +129,11 @@ describe("Route Intelligence - Unique Feature", () => {
     expect(intelligence.maxCapacityUsd).toBeNull();
     expect(intelligence.optimalRangeUsd).toBeNull();
     expect(intelligence.feeEfficiencyScore).toBeNull();
+
+    // Failed probes are reported rather than silently dropped
+    const intelligenceErrors = result.errors.filter(e => e.stage === "intelligence");
+    expect(intelligenceErrors.length).toBeGreaterThan(0);
+    expect(intelligenceErrors[0].route.source.chainId).toBe(invalidRoute.source.chainId);
+    expect(intelligenceErrors[0].category).toBeTypeOf("string");
   });
 });
@@ -1,6 +1,10 @@
-import { Effect } from "every-plugin/effect";
-import { describe, expect, it, beforeEach } from "vitest";
+import { Cause, Effect, Exit } from "every-plugin/effect";
+import { describe, expect, it, beforeEach, vi } from "vitest";
 import { DataProviderService } from "../../service";
+import { RateLimitedError, ValidationError } from "../../utils/errors";
+import { HttpClient } from "../../utils/http";
+import type { DlnOrdersClient } from "../../utils/orders";
+import { priceKey, type PriceProvider, type TokenPrice } from "../../utils/price";
 
 // Mock route for testing
 const mockRoute = {
@@ -18,6 +22,40 @@ const mockRoute = {
   }
 };
 
+// Offline DLN: token list, chains and flat-rate quotes for a WETH route
+const wethRoute = {
+  source: { chainId: "1", assetId: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", symbol: "WETH", decimals: 18 },
+  destination: mockRoute.destination,
+};
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+
+// Flat-rate quotes, so depth search never leaves the baseline's neighbourhood
+const fakeDln = async (input: string | URL | Request) => {
+  const url = new URL(String(input));
+  if (url.pathname.endsWith("/dln/order/create-tx")) {
+    const amountIn = url.searchParams.get("srcChainTokenInAmount") ?? "0";
+    return json({
+      estimation: {
+        srcChainTokenIn: { amount: amountIn, approximateUsdValue: 2000 * Number(amountIn) / 1e18 },
+        dstChainTokenOut: { amount: (BigInt(amountIn) / 10n ** 9n).toString(), approximateUsdValue: 1 },
+        costsDetails: [],
+      },
+      fixFee: "0",
+    });
+  }
+  if (url.pathname.endsWith("/supported-chains-info")) {
+    return json({ chains: [{ chainId: 1, originalChainId: 1, chainName: "Ethereum" }, { chainId: 137, originalChainId: 137, chainName: "Polygon" }] });
+  }
+  if (url.pathname.endsWith("/token-list")) {
+    return json({ tokens: {
+      weth: { symbol: "WETH", name: "Wrapped Ether", decimals: 18, address: wethRoute.source.assetId },
+      usdc: { symbol: "USDC", name: "USD Coin", decimals: 6, address: mockRoute.destination.assetId },
+    } });
+  }
+  return json({}, 404);
+};
+
 describe("DataProviderService - Unit Tests", () => {
   let service: DataProviderService;
 
@@ -46,8 +84,10 @@ describe("DataProviderService - Unit Tests", () => {
       expect(result).toHaveProperty("rates");
       expect(result).toHaveProperty("liquidity");
       expect(result).toHaveProperty("listedAssets");
+      expect(result).toHaveProperty("errors");
 
       // Verify arrays are correct type
+      expect(Array.isArray(result.errors)).toBe(true);
       expect(Array.isArray(result.volumes)).toBe(true);
       expect(Array.isArray(result.rates)).toBe(true);
       expect(Array.isArray(result.liquidity)).toBe(true);
@@ -103,6 +143,112 @@ describe("DataProviderService - Unit Tests", () => {
       expect(rate.effectiveRate).toBeLessThanOrEqual(1); // Can't get more out than in
       expect(rate.totalFeesUsd).toBeTypeOf("number");
       expect(rate.quotedAt).toBeTypeOf("string");
+
+      // Itemized fees carry a native amount and an optional USD value
+      expect(Array.isArray(rate.fees)).toBe(true);
+      rate.fees!.forEach(fee => {
+        expect(fee.type).toBeTypeOf("string");
+        expect(fee.tokenAddress).toBeTypeOf("string");
+        if (fee.amountUsd !== null) {
+          expect(fee.amountUsd).toBeGreaterThanOrEqual(0);
+        }
+      });
+
+      // USDC -> USDC needs no source-side swap
+      expect(rate.execution).toBeDefined();
+      expect(rate.execution!.hasSourceSwap).toBe(false);
+      expect(rate.execution!.intermediateToken).toBeNull();
+    });
+
+    it("should quote the required input for exact-output notionals", async () => {
+      const result = await Effect.runPromise(
+        service.getSnapshot({
+          routes: [mockRoute],
+          notionals: ["1000000"],
+          quoteMode: "exact_out"
+        })
+      );
+
+      expect(result.rates).toHaveLength(1);
+      const rate = result.rates[0];
+      expect(rate.mode).toBe("exact_out");
+      // The destination amount is fixed; fees are paid on top of it
+      expect(rate.amountOut).toBe("1000000");
+      expect(BigInt(rate.amountIn)).toBeGreaterThan(1000000n);
+      expect(rate.effectiveRate).toBeLessThanOrEqual(1);
+    });
+
+    it("should accept CAIP-19 route assets and echo CAIP ids", async () => {
+      const result = await Effect.runPromise(
+        service.getSnapshot({
+          routes: [{
+            source: { caip19: "eip155:1/erc20:0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", symbol: "USDC", decimals: 6 },
+            destination: { caip19: "eip155:137/erc20:0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174", symbol: "USDC", decimals: 6 },
+          }],
+          notionals: ["1000000"],
+        })
+      );
+
+      expect(result.rates).toHaveLength(1);
+      expect(result.rates[0].source).toMatchObject({
+        chainId: "1",
+        assetId: "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48",
+        caip2: "eip155:1",
+        caip19: "eip155:1/erc20:0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48",
+      });
+      expect(result.rates[0].destination.caip2).toBe("eip155:137");
+    });
+
+    it("should reject route assets with an unsupported CAIP-19 id", async () => {
+      await expect(
+        Effect.runPromise(
+          service.getSnapshot({
+            routes: [{
+              source: { caip19: "cosmos:cosmoshub-4/slip44:118", symbol: "ATOM", decimals: 6 },
+              destination: mockRoute.destination,
+            }],
+            notionals: ["1000000"],
+          })
+        )
+      ).rejects.toThrow();
+    });
+
+    it("should accept the 0xEeee native alias and report native/wrapped identities", async () => {
+      const result = await Effect.runPromise(
+        service.getSnapshot({
+          routes: [{
+            source: { chainId: "1", assetId: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE", symbol: "ETH", decimals: 18 },
+            destination: { chainId: "42161", assetId: "0x0000000000000000000000000000000000000000", symbol: "ETH", decimals: 18 },
+          }],
+          notionals: ["100000000000000000"],
+        })
+      );
+
+      expect(result.rates).toHaveLength(1);
+      expect(result.rates[0].source.assetId).toBe("0x0000000000000000000000000000000000000000");
+      expect(result.rates[0].source.wrapping?.wrappedAssetId).toBe("0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2");
+      expect(result.rates[0].destination.wrapping?.wrappedAssetId).toBe("0x82af49447d8a07e3bd95bd0d56f35241523fbab1");
+    });
+
+    it("should convert USD notionals into source units and echo the price", async () => {
+      const result = await Effect.runPromise(
+        service.getSnapshot({
+          routes: [mockRoute],
+          notionalsUsd: [1000]
+        })
+      );
+
+      expect(result.rates).toHaveLength(1);
+      const { notionalUsd } = result.rates[0];
+      expect(notionalUsd).toBeDefined();
+      expect(notionalUsd!.amountUsd).toBe(1000);
+      expect(notionalUsd!.pricedAsset).toBe("source");
+      // USDC trades close to $1
+      expect(notionalUsd!.priceUsd).toBeGreaterThan(0.9);
+      expect(notionalUsd!.priceUsd).toBeLessThan(1.1);
+      // ~1000 USDC in 6-decimal units
+      expect(Number(notionalUsd!.resolvedAmount)).toBeGreaterThan(900_000_000);
+      expect(Number(notionalUsd!.resolvedAmount)).toBeLessThan(1_100_000_000);
     });
 
     it("should calculate effective rate correctly with decimal precision", async () => {
@@ -167,6 +313,27 @@ describe("DataProviderService - Unit Tests", () => {
       );
     });
 
+    it("should provide liquidity at caller-selected thresholds", async () => {
+      const result = await Effect.runPromise(
+        service.getSnapshot({
+          routes: [mockRoute],
+          notionals: ["1000000"],
+          slippageBps: [300, 10, 25, 25]
+        })
+      );
+
+      expect(result.liquidity).toHaveLength(1);
+      const thresholds = result.liquidity[0].thresholds;
+      expect(thresholds.map(t => t.slippageBps)).toEqual([10, 25, 300]);
+
+      // Looser thresholds never allow less input
+      for (let i = 1; i < thresholds.length; i++) {
+        expect(BigInt(thresholds[i].maxAmountIn)).toBeGreaterThanOrEqual(
+          BigInt(thresholds[i - 1].maxAmountIn)
+        );
+      }
+    });
+
     it("should return list of supported assets", async () => {
       const result = await Effect.runPromise(
         service.getSnapshot({
@@ -276,6 +443,530 @@ describe("DataProviderService - Unit Tests", () => {
     });
   });
 
+  describe("validation", () => {
+    const rejection = async (params: Parameters<DataProviderService["getSnapshot"]>[0]) => {
+      const exit = await Effect.runPromiseExit(service.getSnapshot(params));
+      expect(Exit.isFailure(exit)).toBe(true);
+      const error = Exit.isFailure(exit) ? Cause.squash(exit.cause) : null;
+      expect(error).toBeInstanceOf(ValidationError);
+      return (error as ValidationError).issues;
+    };
+
+    it("should report every invalid field with its path", async () => {
+      const fetchMock = vi.fn(fakeDln);
+      vi.stubGlobal("fetch", fetchMock);
+      try {
+        const issues = await rejection({
+          routes: [
+            mockRoute,
+            mockRoute,
+            { source: mockRoute.source, destination: mockRoute.source },
+          ],
+          notionals: ["1000000", "-5", "1.5"],
+        });
+
+        expect(issues).toEqual([
+          expect.objectContaining({ field: "notionals[1]", code: "invalid_amount" }),
+          expect.objectContaining({ field: "notionals[2]", code: "invalid_amount" }),
+          expect.objectContaining({ field: "routes[1]", code: "duplicate_route" }),
+          expect.objectContaining({ field: "routes[2]", code: "same_asset" }),
+        ]);
+        // Structural problems are reported without asking deBridge anything
+        expect(fetchMock).not.toHaveBeenCalled();
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it("should reject assets whose chainId and CAIP ids disagree", async () => {
+      const fetchMock = vi.fn(fakeDln);
+      vi.stubGlobal("fetch", fetchMock);
+      try {
+        const issues = await rejection({
+          routes: [
+            {
+              source: { ...mockRoute.source, caip19: "eip155:137/erc20:0x3c499c542cef5e3811e1192ce70d8cc03d5c3359" },
+              destination: { ...mockRoute.destination, caip2: "eip155:1" },
+            },
+            {
+              source: { ...mockRoute.source, caip19: `eip155:${mockRoute.source.chainId}/erc20:0x0000000000000000000000000000000000000001` },
+              destination: mockRoute.destination,
+            },
+          ],
+          notionals: ["1000000"],
+        });
+
+        expect(issues).toEqual([
+          expect.objectContaining({ field: "routes[0].source.caip19", code: "conflicting_ids" }),
+          expect.objectContaining({ field: "routes[0].destination.caip2", code: "conflicting_ids" }),
+          expect.objectContaining({ field: "routes[1].source.caip19", code: "conflicting_ids" }),
+        ]);
+        expect(fetchMock).not.toHaveBeenCalled();
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it("should reject chains deBridge does not support", async () => {
+      const issues = await rejection({
+        routes: [{ source: { ...mockRoute.source, chainId: "999999" }, destination: mockRoute.destination }],
+        notionals: ["1000000"],
+      });
+
+      expect(issues).toEqual([
+        expect.objectContaining({ field: "routes[0].source.chainId", code: "unsupported_chain" }),
+      ]);
+    });
+
+    it("should reject decimals that disagree with the token list", async () => {
+      const issues = await rejection({
+        routes: [{ source: { ...mockRoute.source, decimals: 18 }, destination: mockRoute.destination }],
+        notionals: ["1000000"],
+      });
+
+      expect(issues).toEqual([
+        expect.objectContaining({ field: "routes[0].source.decimals", code: "decimals_mismatch" }),
+      ]);
+    });
+  });
+
+  describe("provenance", () => {
+    it("should report snapshot and per-rate metadata", async () => {
+      const params = {
+        routes: [mockRoute],
+        notionals: ["1000000"],
+        includeWindows: ["24h" as const]
+      };
+
+      const first = await Effect.runPromise(service.getSnapshot(params));
+      expect(first.meta).toBeDefined();
+      expect(first.meta!.totalUpstreamCalls).toBeGreaterThan(0);
+      expect(first.meta!.sourceEndpoints).toContain("/dln/order/create-tx");
+      expect(first.rates[0].meta?.cacheHit).toBe(false);
+
+      // Same quote again is served from the quote cache
+      const second = await Effect.runPromise(service.getSnapshot(params));
+      const rateMeta = second.rates[0].meta!;
+      expect(rateMeta.cacheHit).toBe(true);
+      expect(rateMeta.cacheAgeMs).toBeGreaterThanOrEqual(0);
+      expect(rateMeta.upstreamLatencyMs).toBeNull();
+      expect(second.meta!.cacheHits).toBeGreaterThan(0);
+    });
+  });
+
+  describe("streamSnapshot", () => {
+    it("should stream typed events and finish with done", async () => {
+      const generator = await Effect.runPromise(
+        service.streamSnapshot({
+          routes: [mockRoute],
+          notionals: ["1000000", "10000000"],
+          includeWindows: ["24h"]
+        })
+      );
+
+      const events = [];
+      for await (const event of generator) {
+        events.push(event);
+      }
+
+      // Last event summarizes the stream
+      const done = events[events.length - 1];
+      expect(done.type).toBe("done");
+      if (done.type !== "done") return;
+
+      const rates = events.filter(e => e.type === "rate");
+      const liquidity = events.filter(e => e.type === "liquidity");
+      expect(rates).toHaveLength(done.data.rateCount);
+      expect(liquidity).toHaveLength(done.data.liquidityCount);
+      expect(events.filter(e => e.type === "assets")).toHaveLength(1);
+      expect(events.filter(e => e.type === "intelligence")).toHaveLength(0);
+      expect(done.data.elapsedMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should require routes and notionals", async () => {
+      await expect(
+        Effect.runPromise(
+          service.streamSnapshot({
+            routes: [],
+            notionals: ["1000000"]
+          })
+        )
+      ).rejects.toThrow();
+    });
+
+    it("should stop scheduling quotes once the consumer aborts", async () => {
+      const fetchMock = vi.fn(fakeDln);
+      vi.stubGlobal("fetch", fetchMock);
+      try {
+        const notionals = Array.from({ length: 20 }, (_, i) => `${i + 1}000000000000000000`);
+        const controller = new AbortController();
+        const stream = await Effect.runPromise(
+          service.streamSnapshot({ routes: [wethRoute], notionals }, controller.signal)
+        );
+        controller.abort();
+
+        const events: string[] = [];
+        for await (const event of stream) events.push(event.type);
+
+        const quoteCalls = fetchMock.mock.calls.filter(([input]) => String(input).includes("create-tx"));
+        expect(quoteCalls.length).toBeLessThan(notionals.length);
+        expect(events).not.toContain("done");
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe("volumeBreakdown", () => {
+    it("should split volume by chain and corridor when requested", async () => {
+      const result = await Effect.runPromise(
+        service.getSnapshot({
+          routes: [mockRoute],
+          notionals: ["1000000"],
+          includeVolumeBreakdown: true
+        })
+      );
+
+      const breakdown = result.volumeBreakdown;
+      expect(breakdown).toBeDefined();
+      expect(breakdown!.window).toBe("24h");
+
+      // Every order lands in exactly one source, destination and corridor bucket
+      const countOrders = (buckets: Array<{ orderCount: number }>) =>
+        buckets.reduce((sum, bucket) => sum + bucket.orderCount, 0);
+      expect(countOrders(breakdown!.bySourceChain)).toBe(breakdown!.orderCount);
+      expect(countOrders(breakdown!.byDestinationChain)).toBe(breakdown!.orderCount);
+      expect(countOrders(breakdown!.byCorridor)).toBe(breakdown!.orderCount);
+    });
+
+    it("should cross-check DefiLlama volume against DLN orders", async () => {
+      const result = await Effect.runPromise(
+        service.getSnapshot({
+          routes: [mockRoute],
+          notionals: ["1000000"],
+          includeWindows: ["24h"],
+          volumeSource: "both"
+        })
+      );
+
+      expect(result.volumes).toHaveLength(1);
+      const [volume] = result.volumes;
+      expect(volume.source).toBe("defillama");
+      expect(volume.crossCheck).toBeDefined();
+      expect(volume.crossCheck!.source).toBe("dln");
+      expect(volume.crossCheck!.volumeUsd).toBeGreaterThanOrEqual(0);
+      if (volume.volumeUsd > 0 && !volume.crossCheck!.truncated) {
+        expect(volume.crossCheck!.discrepancyPct).toBeCloseTo(
+          ((volume.crossCheck!.volumeUsd - volume.volumeUsd) / volume.volumeUsd) * 100
+        );
+      }
+    });
+
+    it("should not report a discrepancy against a truncated DLN order scan", async () => {
+      const weth = { priceUsd: 2000, decimals: 18, source: "/prices/current" };
+      const priceProvider: PriceProvider = {
+        getUsdPrices: async () => new Map([[priceKey({ chainId: "1", address: wethRoute.source.assetId }), weth]]),
+      };
+      const ordersClient = {
+        listFulfilledOrders: async () => ({
+          orders: [{
+            orderId: "0x01",
+            giveChainId: "1",
+            takeChainId: "137",
+            giveTokenAddress: wethRoute.source.assetId,
+            takeTokenAddress: mockRoute.destination.assetId,
+            giveAmount: "1000000000000000000",
+            takeAmount: "2000000000",
+            giveDecimals: 18,
+            takeDecimals: 6,
+            giveSymbol: "WETH",
+            takeSymbol: "USDC",
+            createdAt: new Date().toISOString(),
+            status: "ClaimedUnlock",
+            sourceTxHash: null,
+            fulfillTxHash: null,
+            fulfilledAt: null,
+          }],
+          truncated: true,
+        }),
+      } as unknown as DlnOrdersClient;
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (input: string | URL | Request) =>
+          String(input).includes("bridges.llama.fi")
+            ? json({ id: "debridge", lastDailyVolume: 1_000_000, weeklyVolume: 7_000_000, monthlyVolume: 30_000_000 })
+            : fakeDln(input)
+        )
+      );
+      try {
+        const scanned = new DataProviderService(
+          "https://dln.debridge.finance/v1.0", "https://bridges.llama.fi", "not-required", 30000, 100, priceProvider, ordersClient
+        );
+        const result = await Effect.runPromise(scanned.getSnapshot({
+          routes: [wethRoute],
+          notionals: ["1000000000000000000"],
+          includeWindows: ["24h"],
+          volumeSource: "both",
+        }));
+
+        expect(result.volumes[0].crossCheck).toEqual({
+          source: "dln",
+          volumeUsd: 2000,
+          discrepancyPct: null,
+          truncated: true,
+        });
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it("should omit the breakdown by default", async () => {
+      const result = await Effect.runPromise(
+        service.getSnapshot({ routes: [mockRoute], notionals: ["1000000"] })
+      );
+
+      expect(result.volumeBreakdown).toBeUndefined();
+    });
+  });
+
+  describe("getVolumeHistory", () => {
+    const daysAgo = (days: number) =>
+      new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    it("should return ascending daily buckets within the range", async () => {
+      const result = await Effect.runPromise(
+        service.getVolumeHistory({ startDate: daysAgo(14), endDate: daysAgo(1) })
+      );
+
+      expect(result.buckets.length).toBeGreaterThan(0);
+      expect(result.buckets.length).toBeLessThanOrEqual(14);
+      result.buckets.forEach((bucket, index) => {
+        expect(bucket.date >= daysAgo(14) && bucket.date <= daysAgo(1)).toBe(true);
+        expect(bucket.volumeUsd).toBeGreaterThanOrEqual(0);
+        expect(bucket.isComplete).toBe(true);
+        if (index > 0) expect(bucket.date > result.buckets[index - 1].date).toBe(true);
+      });
+    });
+
+    it("should serve completed days from cache on repeat", async () => {
+      const range = { startDate: daysAgo(7), endDate: daysAgo(1) };
+      const first = await Effect.runPromise(service.getVolumeHistory(range));
+      const second = await Effect.runPromise(service.getVolumeHistory(range));
+
+      expect(second.buckets).toEqual(first.buckets);
+      expect(second.meta?.totalUpstreamCalls).toBe(0);
+      expect(second.meta?.cacheHits).toBe(1);
+    });
+
+    it("should reject an inverted range", async () => {
+      await expect(
+        Effect.runPromise(
+          service.getVolumeHistory({ startDate: daysAgo(1), endDate: daysAgo(7) })
+        )
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("liquidity depth baseline", () => {
+    const pricedAt = (priceUsd: number | null): PriceProvider => ({
+      getUsdPrices: async () => new Map<string, TokenPrice>(
+        priceUsd === null
+          ? []
+          : [[priceKey({ chainId: "1", address: wethRoute.source.assetId }), { priceUsd, decimals: 18, source: "/prices/current" }]]
+      ),
+    });
+    const baselineOf = async (priceProvider: PriceProvider) => {
+      const pricedService = new DataProviderService(
+        "https://dln.debridge.finance/v1.0", "https://bridges.llama.fi", "not-required", 30000, 100, priceProvider
+      );
+      const result = await Effect.runPromise(pricedService.getSnapshot({ routes: [wethRoute], notionals: ["1000000000000000000"] }));
+      return result.liquidity[0]?.baseline?.amountIn;
+    };
+
+    it("should size the baseline quote as a small USD amount of the source asset", async () => {
+      vi.stubGlobal("fetch", vi.fn(fakeDln));
+      try {
+        expect(await baselineOf(pricedAt(2000))).toBe("500000000000000000"); // $1,000 of WETH at $2,000
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it("should fall back to one whole token when the source has no price", async () => {
+      vi.stubGlobal("fetch", vi.fn(fakeDln));
+      try {
+        expect(await baselineOf(pricedAt(null))).toBe("1000000000000000000");
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe("quote requests", () => {
+    it("should report a rejected rate quote as no_route", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (input: string | URL | Request) =>
+          String(input).includes("create-tx") ? new Response("unsupported pair", { status: 400 }) : fakeDln(input)
+        )
+      );
+      try {
+        const result = await Effect.runPromise(
+          service.getSnapshot({ routes: [wethRoute], notionals: ["1000000000000000000"] })
+        );
+
+        expect(result.rates).toEqual([]);
+        expect(result.errors.find((error) => error.stage === "rate")).toMatchObject({
+          category: "no_route",
+          upstreamStatus: 400,
+        });
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it("should build every quote the same way and authenticate with x-api-key", async () => {
+      const quotes: Array<{ url: URL; headers: Headers }> = [];
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+          const url = new URL(String(input));
+          if (url.pathname.endsWith("/dln/order/create-tx")) quotes.push({ url, headers: new Headers(init?.headers) });
+          return fakeDln(input);
+        })
+      );
+      try {
+        const keyedService = new DataProviderService(
+          "https://dln.debridge.finance/v1.0", "https://bridges.llama.fi", "test-key", 30000, 100
+        );
+        await Effect.runPromise(keyedService.getSnapshot({ routes: [wethRoute], notionals: ["1000000000000000000"] }));
+
+        // Rate quotes and depth probes alike
+        expect(quotes.length).toBeGreaterThan(1);
+        for (const { url, headers } of quotes) {
+          expect(headers.get("x-api-key")).toBe("test-key");
+          expect(headers.get("authorization")).toBeNull();
+          expect(url.searchParams.get("dstChainTokenOutRecipient")).toBeTruthy();
+          expect(url.searchParams.get("dstChainOrderAuthorityAddress")).toBeTruthy();
+          expect(url.searchParams.get("srcChainOrderAuthorityAddress")).toBeTruthy();
+        }
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe("quote circuit breaker", () => {
+    it("should stop depth probes from reaching deBridge while the circuit is open", async () => {
+      const fetchMock = vi.fn(async (input: string | URL | Request) =>
+        String(input).includes("create-tx") ? new Response("down", { status: 503 }) : fakeDln(input)
+      );
+      vi.stubGlobal("fetch", fetchMock);
+      const quoteCalls = () => fetchMock.mock.calls.filter(([input]) => String(input).includes("create-tx")).length;
+      try {
+        const failingService = new DataProviderService(
+          "https://dln.debridge.finance/v1.0", "https://bridges.llama.fi", "not-required", 30000, 100,
+          undefined, undefined, new HttpClient({ dln: { requestsPerSecond: 100, maxRetries: 0 } })
+        );
+        const notionals = Array.from({ length: 6 }, (_, i) => `${i + 1}000000000000000000`);
+        await Effect.runPromise(failingService.getSnapshot({ routes: [wethRoute], notionals }));
+
+        const callsBefore = quoteCalls();
+        const result = await Effect.runPromise(failingService.getSnapshot({ routes: [wethRoute], notionals: ["1"] }));
+
+        expect(quoteCalls()).toBe(callsBefore);
+        expect(result.errors.find((error) => error.stage === "liquidity")?.category).toBe("circuit_open");
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe("getChains", () => {
+    it("should return named chains including Solana", async () => {
+      const result = await Effect.runPromise(service.getChains());
+
+      expect(result.chains.length).toBeGreaterThan(0);
+      const ethereum = result.chains.find((chain) => chain.debridgeChainId === "1");
+      expect(ethereum).toMatchObject({ chainId: "1", chainType: "evm", nativeCurrency: { symbol: "ETH", decimals: 18 } });
+      expect(ethereum?.name).toBeTruthy();
+      const solana = result.chains.find((chain) => chain.debridgeChainId === "7565164");
+      expect(solana?.chainType).toBe("solana");
+    });
+
+    it("should serve repeat calls from cache", async () => {
+      await Effect.runPromise(service.getChains());
+      const second = await Effect.runPromise(service.getChains());
+
+      expect(second.meta?.totalUpstreamCalls).toBe(0);
+      expect(second.meta?.cacheHits).toBe(1);
+    });
+  });
+
+  describe("resolveAssets", () => {
+    it("should resolve symbols and addresses to listed assets", async () => {
+      const result = await Effect.runPromise(
+        service.resolveAssets({
+          queries: [
+            { chainId: "1", address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48" },
+            { chainId: "1", symbol: "usdc" },
+            { chainId: "1", symbol: "NOT-A-REAL-TOKEN" },
+          ],
+        })
+      );
+
+      const [byAddress, bySymbol, missing] = result.results;
+      expect(byAddress.status).toBe("resolved");
+      expect(byAddress.candidates[0]).toMatchObject({ chainId: "1", symbol: "USDC", decimals: 6 });
+      expect(["resolved", "ambiguous"]).toContain(bySymbol.status);
+      expect(bySymbol.candidates.map((asset) => asset.assetId)).toContain(byAddress.candidates[0].assetId);
+      expect(missing).toMatchObject({ status: "not_found", candidates: [] });
+    });
+
+    it("should reject queries with both symbol and address", async () => {
+      await expect(
+        Effect.runPromise(
+          service.resolveAssets({ queries: [{ chainId: "1", symbol: "USDC", address: "0x1" }] })
+        )
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("getOrder", () => {
+    it("should return an empty list for an unknown order id", async () => {
+      const result = await Effect.runPromise(
+        service.getOrder({ orderId: `0x${"0".repeat(64)}` })
+      );
+
+      expect(result.orders).toEqual([]);
+      expect(result.meta?.sourceEndpoints).toContain("/api/Orders");
+    });
+
+    it("should require exactly one of orderId or txHash", async () => {
+      await expect(Effect.runPromise(service.getOrder({}))).rejects.toThrow();
+      await expect(
+        Effect.runPromise(service.getOrder({ orderId: "0x1", txHash: "0x2" }))
+      ).rejects.toThrow();
+    });
+
+    it("should fail with the upstream error type instead of a generic error", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async () => new Response("slow down", { status: 429, headers: { "retry-after": "0" } }))
+      );
+      try {
+        const exit = await Effect.runPromiseExit(service.getOrder({ orderId: "0x1" }));
+
+        expect(Exit.isFailure(exit)).toBe(true);
+        const error = Exit.isFailure(exit) ? Cause.squash(exit.cause) : null;
+        expect(error).toBeInstanceOf(RateLimitedError);
+        expect((error as RateLimitedError).retryAfterMs).toBe(0);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
   describe("ping", () => {
     it("should return healthy status", async () => {
       const result = await Effect.runPromise(service.ping());
@@ -283,9 +974,19 @@ describe("DataProviderService - Unit Tests", () => {
       expect(result).toEqual({
         status: "ok",
         timestamp: expect.any(String),
+        upstreams: expect.any(Array),
       });
     });
 
+    it("should report the effective rate of every upstream", async () => {
+      const result = await Effect.runPromise(service.ping());
+
+      expect(result.upstreams.map((rate) => rate.upstream)).toEqual(["dln", "tokenList", "dlnStats", "defillama"]);
+      const dln = result.upstreams.find((rate) => rate.upstream === "dln");
+      expect(dln?.configuredRequestsPerSecond).toBe(10);
+      expect(dln?.effectiveRequestsPerSecond).toBeLessThanOrEqual(10);
+    });
+
     it("should include valid ISO timestamp", async () => {
       const result = await Effect.runPromise(service.ping());
       
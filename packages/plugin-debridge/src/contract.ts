@@ -1,5 +1,5 @@
 import { CommonPluginErrors } from "every-plugin";
-import { oc } from "every-plugin/orpc";
+import { eventIterator, oc } from "every-plugin/orpc";
 import { z } from "every-plugin/zod";
 
 // --- Schemas ---
@@ -10,6 +10,81 @@ export const Asset = z.object({
   assetId: z.string(), // e.g., ERC-20 address or canonical symbol id
   symbol: z.string(),
   decimals: z.number().int().min(0),
+  caip2: z.string().optional(), // e.g. "eip155:1"; set by the provider when the chain maps to CAIP-2
+  caip19: z.string().optional(), // e.g. "eip155:1/erc20:0xa0b8..."
+  // Set on a chain's native coin and its wrapped token, so either can be matched to the other
+  wrapping: z.object({
+    nativeAssetId: z.string(), // deBridge native form (zero address, or the system program on Solana)
+    wrappedAssetId: z.string(), // e.g. WETH
+  }).optional(),
+});
+
+// Route asset as given by callers - chainId/assetId or a CAIP-19 id
+export const AssetInput = z.object({
+  chainId: z.string().optional(),
+  assetId: z.string().optional(),
+  symbol: z.string(),
+  decimals: z.number().int().min(0),
+  caip2: z.string().optional(), // may replace chainId
+  caip19: z.string().optional(), // may replace chainId and assetId
+}).refine((asset) => Boolean(asset.caip19 || ((asset.chainId || asset.caip2) && asset.assetId)), {
+  message: "Provide chainId (or caip2) and assetId, or caip19",
+  path: ["assetId"],
+});
+
+// Provenance of a single quote (where it came from and how fresh it is)
+export const RateMeta = z.object({
+  sourceEndpoint: z.string(), // upstream path, e.g. "/dln/order/create-tx"
+  cacheHit: z.boolean(),
+  cacheAgeMs: z.number().nullable(), // age of the cached quote, null when fetched fresh
+  upstreamLatencyMs: z.number().nullable(), // last attempt latency, null when served from cache
+  retryCount: z.number().int().min(0),
+});
+
+// Single fee component of a quote, denominated in the token it is charged in
+export const FeeComponent = z.object({
+  type: z.enum([
+    "protocol_fee", // DLN protocol fee taken from the input amount
+    "fixed_fee", // flat fee paid in the source chain native token
+    "taker_margin", // solver/taker spread
+    "operating_expense", // destination execution costs prepended to the input
+    "source_gas", // estimated source-chain transaction fee
+    "pre_swap", // cost of swapping the input into the bridged token on the source chain
+  ]),
+  chainId: z.string(),
+  tokenAddress: z.string(), // zero address = chain native gas token
+  amount: z.string().nullable(), // smallest units of tokenAddress, null when only a USD value is reported
+  amountUsd: z.number().nullable(),
+});
+
+// How the quoted order would execute (settlement speed and source-side swap leg)
+export const RateExecution = z.object({
+  estimatedSettlementSeconds: z.number().nullable(), // order.approximateFulfillmentDelay
+  hasSourceSwap: z.boolean(), // input is swapped on the source chain before bridging
+  intermediateToken: z.object({
+    chainId: z.string(),
+    address: z.string(),
+    symbol: z.string(),
+    decimals: z.number().int().min(0),
+    amount: z.string(), // intermediate token smallest units
+  }).nullable(),
+  maxRefundAmount: z.string().nullable(), // intermediate token smallest units, refunded if the order is cancelled
+  recommendedSlippage: z.number().nullable(), // percent, as recommended by deBridge
+});
+
+// Which side of a quote the notional fixes
+export const QuoteMode = z.enum([
+  "exact_in", // notional is the source input, amountOut is quoted
+  "exact_out", // notional is the desired destination output, amountIn is quoted
+]);
+
+// USD notional a rate was requested at, and how it was converted into token units
+export const UsdNotional = z.object({
+  amountUsd: z.number(),
+  pricedAsset: z.enum(["source", "destination"]), // destination for exact_out
+  priceUsd: z.number(), // USD per whole token of the priced asset
+  priceSource: z.string(), // where the price came from, e.g. "/dln/order/create-tx"
+  resolvedAmount: z.string(), // smallest units of the priced asset sent as the notional
 });
 
 // Rate represents a quote for swapping from source to destination asset
@@ -20,27 +95,91 @@ export const Rate = z.object({
   amountOut: z.string(), // in destination smallest units
   effectiveRate: z.number().describe("amountOut/amountIn normalized for decimals"),
   totalFeesUsd: z.number().nullable(),
+  fees: z.array(FeeComponent).optional(), // itemized fees, when the quote reports them
+  execution: RateExecution.optional(),
   quotedAt: z.iso.datetime(),
+  mode: QuoteMode.optional(), // exact_in when omitted
+  notionalUsd: UsdNotional.optional(), // set when requested through notionalsUsd
+  meta: RateMeta.optional(),
 });
 
 // Liquidity depth point for a specific slippage threshold
 export const LiquidityDepthPoint = z.object({
   maxAmountIn: z.string(), // source units
   slippageBps: z.number(), // e.g., 50 = 0.5%
+  // Smallest probed input that exceeded the threshold (null if none was found)
+  upperBoundAmountIn: z.string().nullable().optional(),
+  // high = bracket converged, medium = bracketed or search ceiling reached, low = probe budget ran out
+  confidence: z.enum(["high", "medium", "low"]).optional(),
 });
 
 // Liquidity depth for a route at different slippage thresholds
 export const LiquidityDepth = z.object({
   route: z.object({ source: Asset, destination: Asset }),
   thresholds: z.array(LiquidityDepthPoint), // include 50 and 100 bps at minimum
+  // Small-size quote the slippage is measured against
+  baseline: z.object({
+    amountIn: z.string(), // source units
+    effectiveRate: z.number(),
+  }).optional(),
+  probeCount: z.number().int().min(0).optional(), // quotes issued for this route (cache hits included)
   measuredAt: z.iso.datetime(),
 });
 
+// Where volume figures come from
+export const VolumeSource = z.enum([
+  "defillama", // DefiLlama bridge aggregates
+  "dln", // sum of fulfilled DLN orders from the stats API
+]);
+
 // Volume metrics for a time window
 export const VolumeWindow = z.object({
   window: z.enum(["24h", "7d", "30d"]),
   volumeUsd: z.number(),
   measuredAt: z.iso.datetime(),
+  source: VolumeSource.optional(), // defillama when omitted
+  truncated: z.boolean().optional(), // dln only: order paging limit reached, volumeUsd is a lower bound
+  // volumeSource "both": DLN order sum for the same window, compared against volumeUsd
+  crossCheck: z.object({
+    source: VolumeSource,
+    volumeUsd: z.number(),
+    discrepancyPct: z.number().nullable(), // (crossCheck - volumeUsd) / volumeUsd * 100, null when volumeUsd is 0 or truncated
+    truncated: z.boolean(), // order paging limit reached, volumeUsd is only a lower bound
+  }).optional(),
+});
+
+// One UTC day of bridge volume
+export const DailyVolume = z.object({
+  date: z.iso.date(), // UTC day, YYYY-MM-DD
+  volumeUsd: z.number(), // (deposits + withdrawals) / 2 - each transfer counts once
+  depositUsd: z.number(),
+  withdrawUsd: z.number(),
+  depositTxs: z.number().int().min(0),
+  withdrawTxs: z.number().int().min(0),
+  isComplete: z.boolean(), // false for today's still-accumulating bucket
+});
+
+// Volume attributed to one chain or chain pair
+export const VolumeBucket = z.object({
+  volumeUsd: z.number(),
+  orderCount: z.number().int().min(0),
+});
+
+// Last-24h volume split by source chain, destination chain and corridor, aggregated from DLN orders
+export const VolumeBreakdown = z.object({
+  window: z.literal("24h"),
+  bySourceChain: z.array(VolumeBucket.extend({ chainId: z.string() })),
+  byDestinationChain: z.array(VolumeBucket.extend({ chainId: z.string() })),
+  byCorridor: z.array(VolumeBucket.extend({
+    sourceChainId: z.string(),
+    destinationChainId: z.string(),
+  })),
+  totalVolumeUsd: z.number(),
+  orderCount: z.number().int().min(0),
+  unpricedOrderCount: z.number().int().min(0), // orders whose give token has no USD price (excluded from volumeUsd)
+  truncated: z.boolean(), // page limit reached - figures cover only the newest orders
+  source: z.string(), // upstream path, e.g. "/api/Orders/filteredList"
+  measuredAt: z.iso.datetime(),
 });
 
 // Assets listed by the provider
@@ -70,6 +209,41 @@ export const RouteIntelligence = z.object({
   measuredAt: z.iso.datetime(),
 });
 
+// Failure for a single snapshot item (rate, liquidity route or intelligence probe)
+export const SnapshotError = z.object({
+  stage: z.enum(["rate", "liquidity", "intelligence"]),
+  route: z.object({ source: Asset, destination: Asset }),
+  notional: z.string().optional(), // source units, when the failure is tied to an amount
+  category: z.enum([
+    "timeout",
+    "rate_limited",
+    "unauthorized",
+    "no_route",
+    "upstream_4xx",
+    "upstream_5xx",
+    "circuit_open",
+    "invalid_decimals",
+    "parse_failure",
+    "network",
+    "unknown",
+  ]),
+  upstreamStatus: z.number().int().nullable(), // HTTP status when the upstream responded
+  message: z.string(),
+  occurredAt: z.iso.datetime(),
+});
+
+// Provenance of a whole snapshot (upstream usage and cache effectiveness)
+export const SnapshotMeta = z.object({
+  sourceEndpoints: z.array(z.string()),
+  totalUpstreamCalls: z.number().int().min(0), // HTTP requests made, including retries
+  totalRetries: z.number().int().min(0),
+  upstreamLatencyMs: z.number(), // summed latency of upstream calls (last attempt of each)
+  cacheHits: z.number().int().min(0),
+  cacheMisses: z.number().int().min(0),
+  elapsedMs: z.number(),
+  generatedAt: z.iso.datetime(),
+});
+
 // Complete snapshot of provider data
 export const ProviderSnapshot = z.object({
   volumes: z.array(VolumeWindow),
@@ -78,6 +252,182 @@ export const ProviderSnapshot = z.object({
   listedAssets: ListedAssets,
   // Optional: Advanced route intelligence for power users
   routeIntelligence: z.array(RouteIntelligence).optional(),
+  volumeBreakdown: VolumeBreakdown.optional(),
+  // Items that could not be fetched, so "no data" can be told apart from "provider failed"
+  errors: z.array(SnapshotError),
+  meta: SnapshotMeta.optional(),
+});
+
+// Snapshot request parameters (shared by getSnapshot and streamSnapshot)
+export const SnapshotInput = z.object({
+  routes: z.array(z.object({ source: AssetInput, destination: AssetInput })).min(1),
+  notionals: z.array(z.string()).min(1).optional(), // amounts to quote, in source units (destination units for exact_out)
+  notionalsUsd: z.array(z.number().positive()).min(1).optional()
+    .describe("USD amounts to quote, converted per route into source (or destination for exact_out) units"),
+  includeWindows: z.array(z.enum(["24h", "7d", "30d"]))
+    .default(["24h"]).optional(),
+  includeIntelligence: z.boolean().default(false).optional()
+    .describe("Enable advanced route intelligence analysis (capacity, price impact, fee efficiency)"),
+  volumeSource: z.enum(["defillama", "dln", "both"]).default("defillama").optional()
+    .describe("Volume source; both reports DefiLlama figures with a DLN cross-check"),
+  includeVolumeBreakdown: z.boolean().default(false).optional()
+    .describe("Split last-24h volume by source chain, destination chain and corridor (pages through DLN orders)"),
+  quoteMode: QuoteMode.default("exact_in").optional()
+    .describe("exact_out treats each notional as the amount to deliver on the destination chain"),
+  slippageBps: z.array(z.number().int().min(1).max(5000)).min(1).max(10).optional()
+    .describe("Slippage thresholds in bps for liquidity depth (defaults to [50, 100])"),
+}).refine((input) => Boolean(input.notionals?.length || input.notionalsUsd?.length), {
+  message: "Provide notionals or notionalsUsd",
+  path: ["notionals"],
+});
+
+// Daily volume history request (inclusive UTC date range)
+export const VolumeHistoryInput = z.object({
+  startDate: z.iso.date(),
+  endDate: z.iso.date(),
+}).refine((input) => input.startDate <= input.endDate, {
+  message: "startDate must not be after endDate",
+  path: ["startDate"],
+});
+
+// Daily volume buckets for a date range
+export const VolumeHistory = z.object({
+  buckets: z.array(DailyVolume), // ascending by date; days before the upstream series starts are omitted
+  source: z.string(), // upstream path, e.g. "/bridgevolume/all"
+  measuredAt: z.iso.datetime(),
+  meta: SnapshotMeta.optional(),
+});
+
+// Address family of a chain
+export const ChainFamily = z.enum(["evm", "solana"]);
+
+// Chain supported by deBridge
+export const Chain = z.object({
+  chainId: z.string(), // native chain id (EIP-155 for EVM chains)
+  debridgeChainId: z.string(), // deBridge id - the value used in Asset.chainId and quotes
+  caip2: z.string().nullable(),
+  name: z.string(),
+  chainType: ChainFamily,
+  nativeCurrency: z.object({
+    symbol: z.string(),
+    decimals: z.number().int().min(0),
+  }).nullable(), // null when the chain's gas token is not known
+});
+
+export const ChainList = z.object({
+  chains: z.array(Chain),
+  measuredAt: z.iso.datetime(),
+  meta: SnapshotMeta.optional(),
+});
+
+// Asset lookup by symbol or by address on one chain
+export const AssetQuery = z.object({
+  chainId: z.string().min(1),
+  symbol: z.string().min(1).optional(), // matched case-insensitively
+  address: z.string().min(1).optional(),
+}).refine((query) => Boolean(query.symbol) !== Boolean(query.address), {
+  message: "Provide exactly one of symbol or address",
+  path: ["symbol"],
+});
+
+export const ResolveAssetsInput = z.object({
+  queries: z.array(AssetQuery).min(1).max(50),
+});
+
+export const AssetResolution = z.object({
+  query: AssetQuery,
+  status: z.enum([
+    "resolved", // exactly one listed asset matches
+    "ambiguous", // several listed assets share the symbol - pick from candidates
+    "not_found",
+    "unavailable", // the chain's token list could not be fetched
+  ]),
+  candidates: z.array(Asset),
+});
+
+export const ResolvedAssets = z.object({
+  results: z.array(AssetResolution), // same order as the queries
+  measuredAt: z.iso.datetime(),
+  meta: SnapshotMeta.optional(),
+});
+
+// Order status lookup - by DLN order id or by the source-chain transaction that created it
+export const OrderLookupInput = z.object({
+  orderId: z.string().min(1).optional(),
+  txHash: z.string().min(1).optional(),
+}).refine((input) => Boolean(input.orderId) !== Boolean(input.txHash), {
+  message: "Provide exactly one of orderId or txHash",
+  path: ["orderId"],
+});
+
+// One side of an order (what the maker gives on the source chain or takes on the destination chain)
+export const OrderLeg = z.object({
+  chainId: z.string(),
+  tokenAddress: z.string(),
+  symbol: z.string().nullable(),
+  decimals: z.number().int().min(0).nullable(),
+  amount: z.string(), // smallest units of tokenAddress
+});
+
+// Normalized lifecycle state of a DLN order
+export const OrderState = z.enum([
+  "created", // locked on the source chain, awaiting a taker
+  "fulfilled", // delivered on the destination chain, unlock pending
+  "claimed", // delivered and the taker has claimed the locked input
+  "cancelled", // cancelled by the maker (refund pending or claimed)
+  "unknown", // upstream state not recognised
+]);
+
+export const OrderStatus = z.object({
+  orderId: z.string(),
+  state: OrderState,
+  upstreamState: z.string(), // raw DLN state, e.g. "SentUnlock"
+  give: OrderLeg,
+  take: OrderLeg,
+  sourceTxHash: z.string().nullable(),
+  fulfillTxHash: z.string().nullable(),
+  createdAt: z.iso.datetime(),
+  fulfilledAt: z.iso.datetime().nullable(),
+  fulfillmentLatencySeconds: z.number().nullable(), // fulfilledAt - createdAt
+});
+
+export const OrderLookup = z.object({
+  orders: z.array(OrderStatus), // empty when the order (or transaction) is not indexed yet
+  measuredAt: z.iso.datetime(),
+  meta: SnapshotMeta.optional(),
+});
+
+// Streamed snapshot event - one per completed piece of the snapshot
+export const SnapshotEvent = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("volume"), data: VolumeWindow }),
+  z.object({ type: z.literal("rate"), data: Rate }),
+  z.object({ type: z.literal("liquidity"), data: LiquidityDepth }),
+  z.object({ type: z.literal("assets"), data: ListedAssets }),
+  z.object({ type: z.literal("intelligence"), data: RouteIntelligence }),
+  z.object({ type: z.literal("breakdown"), data: VolumeBreakdown }),
+  z.object({ type: z.literal("error"), data: SnapshotError }),
+  z.object({
+    type: z.literal("done"),
+    data: z.object({
+      volumeCount: z.number().int(),
+      rateCount: z.number().int(),
+      liquidityCount: z.number().int(),
+      assetCount: z.number().int(),
+      intelligenceCount: z.number().int(),
+      errorCount: z.number().int(),
+      elapsedMs: z.number(),
+      completedAt: z.iso.datetime(),
+      meta: SnapshotMeta.optional(),
+    }),
+  }),
+]);
+
+// Request budget of one upstream; the effective rate halves on 429s and recovers on success
+export const UpstreamRate = z.object({
+  upstream: z.enum(["dln", "tokenList", "dlnStats", "defillama"]),
+  configuredRequestsPerSecond: z.number(),
+  effectiveRequestsPerSecond: z.number(),
+  pausedUntil: z.iso.datetime().nullable(), // set while honoring a Retry-After
 });
 
 // --- Contract ---
@@ -86,23 +436,51 @@ export const contract = oc.router({
   // Main endpoint - get complete snapshot for routes and notionals
   getSnapshot: oc
     .route({ method: "GET", path: "/snapshot" })
-    .input(z.object({
-      routes: z.array(z.object({ source: Asset, destination: Asset })).min(1),
-      notionals: z.array(z.string()).min(1), // amounts in source units to quote
-      includeWindows: z.array(z.enum(["24h", "7d", "30d"]))
-        .default(["24h"]).optional(),
-      includeIntelligence: z.boolean().default(false).optional()
-        .describe("Enable advanced route intelligence analysis (capacity, price impact, fee efficiency)"),
-    }))
+    .input(SnapshotInput)
     .output(ProviderSnapshot)
     .errors(CommonPluginErrors),
 
+  // Streaming variant - emits volumes, rates, liquidity, assets and intelligence as each completes
+  streamSnapshot: oc
+    .route({ method: "GET", path: "/snapshot/stream" })
+    .input(SnapshotInput)
+    .output(eventIterator(SnapshotEvent))
+    .errors(CommonPluginErrors),
+
+  // Daily volume time series from DefiLlama bridge stats
+  getVolumeHistory: oc
+    .route({ method: "GET", path: "/volume/history" })
+    .input(VolumeHistoryInput)
+    .output(VolumeHistory)
+    .errors(CommonPluginErrors),
+
+  // Canonical assets from the deBridge token lists by (chainId, symbol) or (chainId, address)
+  resolveAssets: oc
+    .route({ method: "GET", path: "/assets/resolve" })
+    .input(ResolveAssetsInput)
+    .output(ResolvedAssets)
+    .errors(CommonPluginErrors),
+
+  // Status of a single DLN order, or of all orders created by one transaction
+  getOrder: oc
+    .route({ method: "GET", path: "/orders/status" })
+    .input(OrderLookupInput)
+    .output(OrderLookup)
+    .errors(CommonPluginErrors),
+
+  // Chains supported by deBridge, with names and native currencies
+  getChains: oc
+    .route({ method: "GET", path: "/chains" })
+    .output(ChainList)
+    .errors(CommonPluginErrors),
+
   // Health check procedure
   ping: oc
     .route({ method: 'GET', path: '/ping' })
     .output(z.object({
       status: z.literal('ok'),
       timestamp: z.string().datetime(),
+      upstreams: z.array(UpstreamRate),
     }))
     .errors(CommonPluginErrors),
 });
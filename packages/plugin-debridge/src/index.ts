@@ -1,9 +1,119 @@
-import { createPlugin } from "every-plugin";
-import { Effect } from "every-plugin/effect";
+import { type CommonPluginErrors, createPlugin } from "every-plugin";
+import { Cause, Effect, Exit } from "every-plugin/effect";
+import type { ORPCErrorConstructorMap } from "every-plugin/orpc";
 import { z } from "every-plugin/zod";
 
 import { contract } from "./contract";
 import { DataProviderService } from "./service";
+import {
+  CircuitOpenError,
+  ForbiddenError,
+  HttpError,
+  isUpstreamError,
+  NoRouteError,
+  RateLimitedError,
+  UnauthorizedError,
+  ValidationError,
+} from "./utils/errors";
+import { HttpClient } from "./utils/http";
+import { DlnOrdersClient } from "./utils/orders";
+import { DefiLlamaPriceProvider } from "./utils/price";
+
+type PluginErrors = ORPCErrorConstructorMap<typeof CommonPluginErrors>;
+
+// Overrides for one upstream's budget; unset fields keep DEFAULT_UPSTREAM_PROFILES
+const UpstreamProfileVariables = z.object({
+  maxConcurrent: z.number().int().min(1).max(50).optional(),
+  requestsPerSecond: z.number().min(0.1).max(100).optional(),
+  timeoutMs: z.number().int().min(1000).max(60000).optional(),
+  maxRetries: z.number().int().min(0).max(5).optional(),
+  retryBaseDelayMs: z.number().int().min(0).max(30000).optional(),
+});
+
+// Used when a 429 arrives without a Retry-After header
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+/**
+ * Upstream endpoint path of a failed request, e.g. "/api/Orders/0x1"
+ */
+function upstreamResourceOf(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Map a service failure onto CommonPluginErrors; unknown errors are returned as-is
+ */
+function toPluginError(error: unknown, errors: PluginErrors, apiKeyProvided: boolean): unknown {
+  if (error instanceof ValidationError) {
+    return errors.BAD_REQUEST({
+      message: error.message,
+      data: {
+        invalidFields: [...new Set(error.issues.map((issue) => issue.field))],
+        validationErrors: error.issues,
+      },
+    });
+  }
+  if (error instanceof RateLimitedError) {
+    return errors.RATE_LIMITED({
+      message: error.message,
+      data: { retryAfter: Math.ceil((error.retryAfterMs ?? DEFAULT_RETRY_AFTER_SECONDS * 1000) / 1000) },
+    });
+  }
+  if (error instanceof UnauthorizedError) {
+    return errors.UNAUTHORIZED({
+      message: error.message,
+      data: { apiKeyProvided, provider: "deBridge", authType: "apiKey" },
+    });
+  }
+  if (error instanceof ForbiddenError) {
+    return errors.FORBIDDEN({
+      message: error.message,
+      data: { action: upstreamResourceOf(error.url) },
+    });
+  }
+  if (error instanceof NoRouteError) {
+    return errors.NOT_FOUND({
+      message: error.message,
+      data: { resource: "route" },
+    });
+  }
+  // Other 4xx: the upstream rejected the request itself, so retrying will not help
+  if (error instanceof HttpError && error.status < 500) {
+    if (error.status === 404) {
+      return errors.NOT_FOUND({
+        message: error.message,
+        data: { resource: upstreamResourceOf(error.url) },
+      });
+    }
+    return errors.BAD_REQUEST({ message: error.message, data: {} });
+  }
+  // Upstream unavailable (5xx), circuit open, timeout or invalid response
+  if (isUpstreamError(error)) {
+    const retryAfterMs = error instanceof CircuitOpenError ? error.retryAfterMs : null;
+    return errors.SERVICE_UNAVAILABLE({
+      message: error.message,
+      data: retryAfterMs !== null ? { retryAfter: Math.ceil(retryAfterMs / 1000) } : {},
+    });
+  }
+  return error;
+}
+
+/**
+ * Run a service effect and map typed failures onto CommonPluginErrors
+ */
+async function runService<A>(
+  effect: Effect.Effect<A, Error>,
+  errors: PluginErrors,
+  apiKeyProvided: boolean
+): Promise<A> {
+  const exit = await Effect.runPromiseExit(effect);
+  if (Exit.isSuccess(exit)) return exit.value;
+  throw toPluginError(Cause.squash(exit.cause), errors, apiKeyProvided);
+}
 
 /**
  * deBridge DLN Data Provider Plugin
@@ -12,7 +122,7 @@ import { DataProviderService } from "./service";
  * deBridge enables fast, single-transaction cross-chain swaps without locking assets.
  * 
  * Features:
- * - Production-grade rate limiting (Bottleneck)
+ * - Per-upstream rate limit budgets (Bottleneck)
  * - Precise decimal arithmetic (decimal.js)
  * - Exponential backoff with jitter
  * - Comprehensive error handling
@@ -23,8 +133,18 @@ export default createPlugin({
   variables: z.object({
     baseUrl: z.string().url().default("https://dln.debridge.finance/v1.0"),
     defillamaBaseUrl: z.string().url().default("https://bridges.llama.fi"),
+    priceBaseUrl: z.string().url().default(DefiLlamaPriceProvider.DEFAULT_BASE_URL),
+    dlnStatsBaseUrl: z.string().url().default(DlnOrdersClient.DEFAULT_BASE_URL),
     timeout: z.number().min(1000).max(60000).default(30000),
     maxRequestsPerSecond: z.number().min(1).max(100).default(10),
+    // Routes or route/notional pairs fetched side by side; capped at the DLN upstream's maxConcurrent
+    maxConcurrency: z.number().int().min(1).max(50).default(5),
+    upstreams: z.object({
+      dln: UpstreamProfileVariables.optional(),
+      tokenList: UpstreamProfileVariables.optional(),
+      dlnStats: UpstreamProfileVariables.optional(),
+      defillama: UpstreamProfileVariables.optional(),
+    }).default({}),
   }),
 
   secrets: z.object({
@@ -35,13 +155,29 @@ export default createPlugin({
 
   initialize: (config: any) =>
     Effect.gen(function* () {
+      const apiKey: string = config.secrets?.apiKey ?? "not-required";
+      const { timeout, maxRequestsPerSecond, maxConcurrency, upstreams } = config.variables;
+
+      // One client for every upstream call; timeout and maxRequestsPerSecond are the
+      // defaults that per-upstream settings refine
+      const http = new HttpClient({
+        dln: { requestsPerSecond: maxRequestsPerSecond, timeoutMs: timeout, ...upstreams?.dln },
+        tokenList: { timeoutMs: timeout, ...upstreams?.tokenList },
+        dlnStats: { timeoutMs: timeout, ...upstreams?.dlnStats },
+        defillama: { timeoutMs: timeout, ...upstreams?.defillama },
+      });
+
       // Create service instance with config
       const service = new DataProviderService(
         config.variables.baseUrl,
         config.variables.defillamaBaseUrl,
-        config.secrets?.apiKey ?? "not-required",
-        config.variables.timeout,
-        config.variables.maxRequestsPerSecond
+        apiKey,
+        timeout,
+        maxRequestsPerSecond,
+        new DefiLlamaPriceProvider(config.variables.priceBaseUrl, undefined, http),
+        new DlnOrdersClient(config.variables.dlnStatsBaseUrl, undefined, undefined, http),
+        http,
+        maxConcurrency
       );
 
       // Test the connection during initialization, but don't fail hard in dev environments.
@@ -56,24 +192,66 @@ export default createPlugin({
           }),
       );
 
-      return { service };
+      return { service, apiKeyProvided: apiKey !== "not-required" };
     }),
 
   shutdown: () => Effect.void,
 
   createRouter: (context, builder) => {
-    const { service } = context;
+    const { service, apiKeyProvided } = context;
 
     return {
-      getSnapshot: builder.getSnapshot.handler(async ({ input }) => {
-        const snapshot = await Effect.runPromise(
-          service.getSnapshot(input)
+      getSnapshot: builder.getSnapshot.handler(async ({ input, errors }) => {
+        const snapshot = await runService(
+          service.getSnapshot(input),
+          errors,
+          apiKeyProvided
         );
         return snapshot;
       }),
 
-      ping: builder.ping.handler(async () => {
-        return await Effect.runPromise(service.ping());
+      streamSnapshot: builder.streamSnapshot.handler(async function* ({ input, errors, signal }) {
+        // Aborted when the client disconnects or stops reading, so queued upstream work is dropped
+        const cancel = new AbortController();
+        const onAbort = () => cancel.abort(signal?.reason);
+        if (signal?.aborted) onAbort();
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        try {
+          const generator = await runService(
+            service.streamSnapshot(input, cancel.signal),
+            errors,
+            apiKeyProvided
+          );
+          for await (const event of generator) {
+            yield event;
+          }
+        } catch (error) {
+          throw toPluginError(error, errors, apiKeyProvided);
+        } finally {
+          signal?.removeEventListener("abort", onAbort);
+          cancel.abort();
+        }
+      }),
+
+      getVolumeHistory: builder.getVolumeHistory.handler(async ({ input, errors }) => {
+        return await runService(service.getVolumeHistory(input), errors, apiKeyProvided);
+      }),
+
+      resolveAssets: builder.resolveAssets.handler(async ({ input, errors }) => {
+        return await runService(service.resolveAssets(input), errors, apiKeyProvided);
+      }),
+
+      getOrder: builder.getOrder.handler(async ({ input, errors }) => {
+        return await runService(service.getOrder(input), errors, apiKeyProvided);
+      }),
+
+      getChains: builder.getChains.handler(async ({ errors }) => {
+        return await runService(service.getChains(), errors, apiKeyProvided);
+      }),
+
+      ping: builder.ping.handler(async ({ errors }) => {
+        return await runService(service.ping(), errors, apiKeyProvided);
       }),
     };
   }
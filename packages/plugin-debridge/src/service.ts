@@ -5,84 +5,113 @@ import Decimal from "decimal.js";
 // Import types from contract
 import type {
   Asset,
+  AssetInput,
   Rate,
+  FeeComponent,
+  RateExecution,
   LiquidityDepth,
   VolumeWindow,
+  DailyVolume,
+  VolumeHistory,
+  VolumeBreakdown,
   ListedAssets,
   ProviderSnapshot,
-  RouteIntelligence
+  RouteIntelligence,
+  SnapshotError,
+  SnapshotEvent,
+  QuoteMode,
+  UsdNotional,
+  OrderStatus,
+  OrderLookup,
+  Chain,
+  ChainList,
+  AssetResolution,
+  ResolvedAssets
 } from "./contract";
 
 // Import utilities
 import { DecimalUtils } from "./utils/decimal";
-import { HttpUtils } from "./utils/http";
+import { HttpClient, type RequestLane } from "./utils/http";
 import { TTLCache, RequestDeduplicator, CircuitBreaker } from "./utils/cache";
 import { Logger, PerformanceTimer } from "./utils/logger";
+import { AsyncEventQueue } from "./utils/stream";
+import { mapWithConcurrency } from "./utils/pool";
+import {
+  classifyError,
+  DecimalsError,
+  HttpError,
+  isUpstreamError,
+  NoRouteError,
+  ParseError,
+  ValidationError,
+  type ValidationIssue,
+} from "./utils/errors";
+import { ProvenanceTracker } from "./utils/provenance";
+import { searchLiquidityDepth } from "./utils/depth";
+import {
+  DefiLlamaPriceProvider,
+  priceKey,
+  type PriceProvider,
+  type TokenPrice,
+  type TokenRef,
+} from "./utils/price";
+import { DlnOrdersClient, type DeBridgeOrder } from "./utils/orders";
+import {
+  canonicalAssetId,
+  chainFamilyOf,
+  nativeAssetIdOf,
+  nativeCurrencyOf,
+  nativeWrappingOf,
+  normalizeAddress,
+} from "./utils/chains";
+import { caipFieldsOf, fromCaip19, fromCaip2, toCaip2 } from "./utils/caip";
 
 // Infer the types from the schemas
 type AssetType = z.infer<typeof Asset>;
+type AssetInputType = z.infer<typeof AssetInput>;
 type RateType = z.infer<typeof Rate>;
+type FeeComponentType = z.infer<typeof FeeComponent>;
+type RateExecutionType = z.infer<typeof RateExecution>;
 type LiquidityDepthType = z.infer<typeof LiquidityDepth>;
 type VolumeWindowType = z.infer<typeof VolumeWindow>;
+type DailyVolumeType = z.infer<typeof DailyVolume>;
+type VolumeHistoryType = z.infer<typeof VolumeHistory>;
+type VolumeBreakdownType = z.infer<typeof VolumeBreakdown>;
 type ListedAssetsType = z.infer<typeof ListedAssets>;
 type ProviderSnapshotType = z.infer<typeof ProviderSnapshot>;
 type RouteIntelligenceType = z.infer<typeof RouteIntelligence>;
-
-/**
- * Token Bucket Rate Limiter
- * Implements configurable rate limiting with token bucket algorithm
- */
-class RateLimiter {
-  private tokens: number;
-  private lastRefill: number;
-
-  constructor(
-    private readonly maxTokens: number,
-    private readonly refillRate: number // tokens per second
-  ) {
-    this.tokens = maxTokens;
-    this.lastRefill = Date.now();
-  }
-
-  async acquire(): Promise<void> {
-    this.refill();
-
-    if (this.tokens >= 1) {
-      this.tokens -= 1;
-      return;
-    }
-
-    // Wait for next token
-    const waitTime = (1 / this.refillRate) * 1000;
-    await new Promise((resolve) => setTimeout(resolve, waitTime));
-    this.tokens = 0; // Reset after waiting
-  }
-
-  private refill(): void {
-    const now = Date.now();
-    const timePassed = (now - this.lastRefill) / 1000;
-    const tokensToAdd = timePassed * this.refillRate;
-
-    this.tokens = Math.min(this.maxTokens, this.tokens + tokensToAdd);
-    this.lastRefill = now;
-  }
-}
+type SnapshotErrorType = z.infer<typeof SnapshotError>;
+type SnapshotEventType = z.infer<typeof SnapshotEvent>;
+type QuoteModeType = z.infer<typeof QuoteMode>;
+type UsdNotionalType = z.infer<typeof UsdNotional>;
+type OrderStatusType = z.infer<typeof OrderStatus>;
+type OrderLookupType = z.infer<typeof OrderLookup>;
+type ChainInfoType = z.infer<typeof Chain>;
+type ChainListType = z.infer<typeof ChainList>;
+type AssetResolutionType = z.infer<typeof AssetResolution>;
+type ResolvedAssetsType = z.infer<typeof ResolvedAssets>;
+
+type SnapshotParams = {
+  routes: Array<{ source: AssetInputType; destination: AssetInputType }>; // chainId/assetId or CAIP ids
+  notionals?: string[];
+  notionalsUsd?: number[]; // converted per route using a USD price for the quoted asset
+  includeWindows?: Array<"24h" | "7d" | "30d">;
+  includeIntelligence?: boolean; // Optional route intelligence analysis
+  includeVolumeBreakdown?: boolean; // Per-chain/corridor volume from DLN orders
+  volumeSource?: "defillama" | "dln" | "both";
+  quoteMode?: QuoteModeType; // exact_out fixes the destination amount instead of the input
+  slippageBps?: number[]; // Liquidity depth thresholds, defaults to 50/100bps
+};
+
+// Per-call options: item/error callbacks for streaming and provenance tracking
+type FetchHooks<T> = {
+  onItem?: (item: T) => void;
+  onError?: (error: SnapshotErrorType) => void;
+  tracker?: ProvenanceTracker;
+  signal?: AbortSignal; // stops scheduling further upstream calls once aborted
+};
 
 // deBridge DLN API response types
-interface DeBridgeOrder {
-  orderId: string;
-  giveChainId: number;
-  takeChainId: number;
-  giveTokenAddress: string;
-  takeTokenAddress: string;
-  giveAmount: string;
-  takeAmount: string;
-  createdAt: string;
-  status: string;
-  affiliateFee?: string;
-  // Add more fields as discovered from actual API
-}
-
 interface DeBridgeQuote {
   estimation: {
     srcChainTokenIn: {
@@ -166,9 +195,13 @@ interface DeBridgeQuote {
 }
 
 interface DeBridgeChain {
-  chainId: number;
+  chainId: number; // deBridge id
+  originalChainId?: number; // native id, differs for chains without an EIP-155 id of their own
   chainName: string;
-  chainType: string;
+}
+
+interface DeBridgeChainsResponse {
+  chains?: DeBridgeChain[];
 }
 
 interface DeBridgeToken {
@@ -198,6 +231,22 @@ interface DefiLlamaBridgeResponse {
   monthlyVolume: number;
 }
 
+// DLN orders for a window, each valued in USD by its give side
+interface PricedOrders {
+  orders: Array<{ order: DeBridgeOrder; volumeUsd: number }>;
+  truncated: boolean;
+  unpricedOrderCount: number;
+  measuredAt: string;
+}
+
+interface DefiLlamaDailyVolume {
+  date: string | number; // unix seconds at UTC midnight
+  depositUSD: number;
+  withdrawUSD: number;
+  depositTxs: number;
+  withdrawTxs: number;
+}
+
 /**
  * deBridge DLN Data Provider Service
  * 
@@ -208,34 +257,71 @@ export class DataProviderService {
   private static readonly DEFAULT_BASE_URL = "https://dln.debridge.finance/v1.0";
   private static readonly DEFAULT_DEFILLAMA_BASE_URL = "https://bridges.llama.fi";
   private static readonly DEFAULT_ACCOUNT = "0x1111111111111111111111111111111111111111";
+  private static readonly DEFAULT_SOLANA_ACCOUNT = "11111111111111111111111111111111"; // base58 placeholder
   private static readonly TOKEN_LIST_TTL = 5 * 60 * 1000; // 5 minutes
+  private static readonly QUOTE_ENDPOINT = "/dln/order/create-tx";
+  private static readonly TOKEN_LIST_ENDPOINT = "/token-list";
+  private static readonly CHAINS_ENDPOINT = "/supported-chains-info";
+  private static readonly VOLUME_HISTORY_ENDPOINT = "/bridgevolume/all";
+  private static readonly DEPTH_BASELINE_USD = 1000; // small enough to sit before any slippage
+  private static readonly DEPTH_BASELINE_FALLBACK_UNITS = 1n; // whole source tokens, when the source has no USD price
+  private static readonly DEFAULT_DEPTH_THRESHOLDS_BPS = [50, 100];
+  private static readonly DEPTH_PROBES_PER_THRESHOLD = 6; // search budget per route scales with thresholds
+  // DLN order states -> normalized lifecycle state
+  private static readonly ORDER_STATES: Record<string, OrderStatusType['state']> = {
+    Created: 'created',
+    Fulfilled: 'fulfilled',
+    SentUnlock: 'fulfilled',
+    ClaimedUnlock: 'claimed',
+    OrderCancelled: 'cancelled',
+    SentOrderCancel: 'cancelled',
+    ClaimedOrderCancel: 'cancelled',
+  };
 
   private readonly dlnApiBase: string;
   private readonly defillamaBaseUrl: string;
   private readonly apiKey: string;
   private readonly timeout: number;
   private readonly logger: Logger;
-  private rateLimiter: RateLimiter;
-  private readonly MAX_RETRIES = 3;
-  private readonly RETRY_DELAYS = [1000, 2000, 4000];
+  private readonly priceProvider: PriceProvider;
+  private readonly ordersClient: DlnOrdersClient;
+  private readonly http: HttpClient;
+  private readonly maxConcurrency: number; // routes or route/notional pairs in flight per fetch
   private readonly DEBRIDGE_LLAMA_ID = "20";
 
   // Caching
   private readonly quoteCache = new TTLCache<string, DeBridgeQuote>(5 * 60 * 1000); // 5 min
   private volumeCache: { data: DefiLlamaBridgeResponse | null; fetchedAt: number } | null = null;
   private readonly VOLUME_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+  // Completed UTC days never change, so they are kept indefinitely; today's bucket expires with VOLUME_CACHE_TTL
+  private readonly pastDayVolumes = new Map<string, DailyVolumeType>();
+  private todayVolume: { data: DailyVolumeType | null; date: string; fetchedAt: number } | null = null;
+  private volumeHistoryStart: string | null = null; // first day of the upstream series
+  private readonly dlnOrderCache = new Map<"24h" | "7d" | "30d", { data: PricedOrders; fetchedAt: number }>();
   private tokenListCache = new Map<string, { assets: AssetType[]; fetchedAt: number }>();
+  private chainsCache: { chains: ChainInfoType[]; fetchedAt: number } | null = null;
 
   // Enterprise Features: Request Deduplication and Circuit Breakers
   private readonly deduplicator = new RequestDeduplicator<any>();
-  private readonly dlnCircuit = new CircuitBreaker(5, 60000);
+  // A 4xx answer (no route, bad request) says nothing about deBridge's health
+  private readonly dlnCircuit = new CircuitBreaker(
+    5,
+    60000,
+    undefined,
+    (error) => !(error instanceof HttpError && error.status < 500 && error.status !== 429)
+  );
 
   constructor(
     baseUrl: string,
     defillamaBaseUrl: string,
     apiKey: string,
     timeout: number,
-    maxRequestsPerSecond: number = 10
+    maxRequestsPerSecond: number = 10,
+    priceProvider: PriceProvider = new DefiLlamaPriceProvider(),
+    ordersClient: DlnOrdersClient = new DlnOrdersClient(),
+    // Shared with priceProvider/ordersClient when injected; otherwise DLN gets maxRequestsPerSecond and timeout
+    http: HttpClient = new HttpClient({ dln: { requestsPerSecond: maxRequestsPerSecond, timeoutMs: timeout } }),
+    maxConcurrency: number = 5
   ) {
     // Sanitize URLs
     this.dlnApiBase = this.sanitizeHttpUrl(
@@ -249,7 +335,11 @@ export class DataProviderService {
     
     this.apiKey = apiKey?.trim?.() ?? "not-required";
     this.timeout = timeout;
-    this.rateLimiter = new RateLimiter(maxRequestsPerSecond, maxRequestsPerSecond);
+    this.priceProvider = priceProvider;
+    this.ordersClient = ordersClient;
+    this.http = http;
+    // More workers than DLN slots would only queue up inside the limiter
+    this.maxConcurrency = Math.max(1, Math.min(Math.floor(maxConcurrency), http.profile('dln').maxConcurrent));
     
     // Initialize structured logger
     this.logger = new Logger('deBridge:Service', (typeof process !== 'undefined' ? process.env.LOG_LEVEL : 'info') as any || 'info');
@@ -258,7 +348,8 @@ export class DataProviderService {
       dlnApiBase: this.dlnApiBase,
       defillamaBaseUrl: this.defillamaBaseUrl,
       timeout: this.timeout,
-      maxRequestsPerSecond,
+      dlnRequestsPerSecond: this.http.profile('dln').requestsPerSecond,
+      maxConcurrency: this.maxConcurrency,
     });
   }
 
@@ -268,25 +359,18 @@ export class DataProviderService {
    * Orchestrates parallel fetching of:
    * - Volume metrics (24h, 7d, 30d)
    * - Rate quotes with fee breakdown
-   * - Liquidity depth at 50bps and 100bps
+   * - Liquidity depth at the requested slippage thresholds (50bps and 100bps by default)
    * - Supported assets across all chains
    */
-  getSnapshot(params: {
-    routes: Array<{ source: AssetType; destination: AssetType }>;
-    notionals: string[];
-    includeWindows?: Array<"24h" | "7d" | "30d">;
-    includeIntelligence?: boolean; // NEW: Optional route intelligence analysis
-  }) {
-    if (!params?.routes?.length || !params?.notionals?.length) {
-      return Effect.fail(new Error('Routes and notionals are required'));
-    }
-
+  getSnapshot(params: SnapshotParams) {
     return Effect.tryPromise({
       try: async () => {
         const timer = new PerformanceTimer();
+        const tracker = new ProvenanceTracker();
+        const routes = await this.validateSnapshotParams(params, tracker);
         this.logger.info('Snapshot fetch started', {
-          routeCount: params.routes.length,
-          notionalCount: params.notionals.length,
+          routeCount: routes.length,
+          notionalCount: (params.notionals?.length ?? 0) + (params.notionalsUsd?.length ?? 0),
           windows: params.includeWindows,
           includeIntelligence: params.includeIntelligence || false,
         });
@@ -295,22 +379,28 @@ export class DataProviderService {
           // Fetch all metrics in parallel for performance
           timer.mark('fetchStart');
         
+          // Per-item failures are collected instead of silently dropped
+          const errors: SnapshotErrorType[] = [];
+          const onError = (error: SnapshotErrorType) => errors.push(error);
+
           // Base metrics (always fetched)
-          const [volumes, rates, liquidity, listedAssets] = await Promise.all([
-            this.getVolumes(params.includeWindows || ["24h"]),
-            this.getRates(params.routes, params.notionals),
-            this.getLiquidityDepth(params.routes),
-            this.getListedAssets(params.routes)
+          const [volumes, rates, liquidity, listedAssets, volumeBreakdown] = await Promise.all([
+            this.getVolumes(params.includeWindows || ["24h"], params.volumeSource, tracker),
+            this.getRates(routes, params.notionals ?? [], params.notionalsUsd ?? [], params.quoteMode, { onError, tracker }),
+            this.getLiquidityDepth(routes, params.slippageBps, { onError, tracker }),
+            this.getListedAssets(routes, tracker),
+            params.includeVolumeBreakdown ? this.getVolumeBreakdown(tracker) : Promise.resolve(null),
           ]);
           
           // Optional route intelligence (only if requested)
           let routeIntelligence: RouteIntelligenceType[] | undefined;
           if (params.includeIntelligence) {
-            this.logger.info('Fetching route intelligence', { routeCount: params.routes.length });
-            routeIntelligence = await this.getRouteIntelligence(params.routes);
+            this.logger.info('Fetching route intelligence', { routeCount: routes.length });
+            routeIntelligence = await this.getRouteIntelligence(routes, { onError, tracker });
           }
           
           timer.mark('fetchEnd');
+          const meta = tracker.summary(timer);
 
           this.logger.info('Snapshot fetch completed', {
             ...timer.getMetadata(),
@@ -319,6 +409,9 @@ export class DataProviderService {
             liquidityCount: liquidity.length,
             assetCount: listedAssets.assets.length,
             intelligenceCount: routeIntelligence?.length || 0,
+            errorCount: errors.length,
+            upstreamCalls: meta.totalUpstreamCalls,
+            cacheHits: meta.cacheHits,
           });
 
           return {
@@ -327,36 +420,644 @@ export class DataProviderService {
             liquidity,
             listedAssets,
             ...(routeIntelligence && { routeIntelligence }),
+            ...(volumeBreakdown && { volumeBreakdown }),
+            errors,
+            meta,
           } satisfies ProviderSnapshotType;
         } catch (error) {
           this.logger.error('Snapshot fetch failed', {
             error: error instanceof Error ? error.message : String(error),
             elapsed: timer.elapsed(),
           });
-          throw new Error(`Snapshot fetch failed: ${error instanceof Error ? error.message : String(error)}`);
+          throw this.toServiceError('Snapshot fetch failed', error);
+        }
+      },
+      catch: (error: unknown) => this.toServiceError('Failed to fetch snapshot', error)
+    });
+  }
+
+  /**
+   * Stream snapshot data as each piece completes.
+   *
+   * Runs the same fetchers as getSnapshot, but yields typed events
+   * (volume, rate, liquidity, assets, intelligence) as soon as each item
+   * is available, followed by a final `done` event with counts.
+   *
+   * @param signal - Aborted when the consumer goes away; no further upstream calls are scheduled
+   */
+  streamSnapshot(params: SnapshotParams, signal?: AbortSignal) {
+    return Effect.tryPromise({
+      try: async () => {
+        const timer = new PerformanceTimer();
+        const tracker = new ProvenanceTracker();
+        // Invalid requests fail up front instead of as a stream error
+        const routes = await this.validateSnapshotParams(params, tracker);
+        const queue = new AsyncEventQueue<SnapshotEventType>();
+        const counts = {
+          volumeCount: 0,
+          rateCount: 0,
+          liquidityCount: 0,
+          assetCount: 0,
+          intelligenceCount: 0,
+          errorCount: 0,
+        };
+        const onError = (error: SnapshotErrorType) => {
+          counts.errorCount++;
+          queue.push({ type: "error", data: error });
+        };
+
+        this.logger.info('Snapshot stream started', {
+          routeCount: routes.length,
+          notionalCount: (params.notionals?.length ?? 0) + (params.notionalsUsd?.length ?? 0),
+          windows: params.includeWindows,
+          includeIntelligence: params.includeIntelligence || false,
+        });
+
+        const run = async () => {
+          await Promise.all([
+            this.getVolumes(params.includeWindows || ["24h"], params.volumeSource, tracker).then((volumes) => {
+              for (const volume of volumes) {
+                counts.volumeCount++;
+                queue.push({ type: "volume", data: volume });
+              }
+            }),
+            this.getRates(routes, params.notionals ?? [], params.notionalsUsd ?? [], params.quoteMode, {
+              onItem: (rate) => {
+                counts.rateCount++;
+                queue.push({ type: "rate", data: rate });
+              },
+              onError,
+              tracker,
+              signal,
+            }),
+            this.getLiquidityDepth(routes, params.slippageBps, {
+              onItem: (depth) => {
+                counts.liquidityCount++;
+                queue.push({ type: "liquidity", data: depth });
+              },
+              onError,
+              tracker,
+              signal,
+            }),
+            this.getListedAssets(routes, tracker).then((listedAssets) => {
+              counts.assetCount = listedAssets.assets.length;
+              queue.push({ type: "assets", data: listedAssets });
+            }),
+            params.includeVolumeBreakdown
+              ? this.getVolumeBreakdown(tracker).then((breakdown) => {
+                  if (breakdown) queue.push({ type: "breakdown", data: breakdown });
+                })
+              : Promise.resolve(),
+          ]);
+
+          if (params.includeIntelligence) {
+            await this.getRouteIntelligence(routes, {
+              onItem: (intelligence) => {
+                counts.intelligenceCount++;
+                queue.push({ type: "intelligence", data: intelligence });
+              },
+              onError,
+              tracker,
+              signal,
+            });
+          }
+
+          queue.push({
+            type: "done",
+            data: {
+              ...counts,
+              elapsedMs: timer.elapsed(),
+              completedAt: new Date().toISOString(),
+              meta: tracker.summary(timer),
+            },
+          });
+          this.logger.info('Snapshot stream completed', { ...timer.getMetadata(), ...counts });
+        };
+
+        run().then(
+          () => queue.close(),
+          (error: unknown) => {
+            if (signal?.aborted) {
+              this.logger.info('Snapshot stream cancelled', { ...timer.getMetadata(), ...counts });
+              queue.close();
+              return;
+            }
+            this.logger.error('Snapshot stream failed', {
+              error: error instanceof Error ? error.message : String(error),
+              elapsed: timer.elapsed(),
+            });
+            queue.fail(this.toServiceError('Snapshot stream failed', error));
+          }
+        );
+
+        return queue.drain();
+      },
+      catch: (error: unknown) => this.toServiceError('Snapshot stream failed', error)
+    });
+  }
+
+  /**
+   * Daily volume buckets for an inclusive UTC date range.
+   *
+   * DefiLlama returns the whole daily series in one call; completed days are
+   * cached indefinitely and only today's bucket is refreshed, so repeated
+   * range queries over the past are served locally.
+   */
+  getVolumeHistory(params: { startDate: string; endDate: string }) {
+    if (!params?.startDate || !params?.endDate || params.startDate > params.endDate) {
+      return Effect.fail(new ValidationError([
+        { field: 'startDate', code: 'invalid_range', message: 'A valid startDate/endDate range is required' },
+      ]));
+    }
+
+    return Effect.tryPromise({
+      try: async () => {
+        const timer = new PerformanceTimer();
+        const tracker = new ProvenanceTracker();
+        const endpoint = DataProviderService.VOLUME_HISTORY_ENDPOINT;
+        const today = new Date().toISOString().slice(0, 10);
+        const endDate = params.endDate < today ? params.endDate : today;
+
+        const days: string[] = [];
+        for (let day = params.startDate; day <= endDate; day = this.nextUtcDay(day)) {
+          // Days before the series starts have no data upstream
+          if (this.volumeHistoryStart && day < this.volumeHistoryStart) continue;
+          days.push(day);
+        }
+
+        const todayFresh = this.todayVolume?.date === today &&
+          Date.now() - this.todayVolume.fetchedAt < this.VOLUME_CACHE_TTL;
+        const needsFetch = this.volumeHistoryStart === null ||
+          days.some((day) => (day === today ? !todayFresh : !this.pastDayVolumes.has(day)));
+
+        if (needsFetch) {
+          tracker.recordCacheMiss();
+          await this.fetchDefiLlamaVolumeHistory(today, tracker);
+        } else {
+          tracker.recordCacheHit(endpoint);
+        }
+
+        const buckets: DailyVolumeType[] = [];
+        for (const day of days) {
+          // The series start is only known after the first fetch
+          if (this.volumeHistoryStart && day < this.volumeHistoryStart) continue;
+          const bucket = day === today ? this.todayVolume?.data : this.pastDayVolumes.get(day);
+          if (bucket) buckets.push(bucket);
+        }
+
+        this.logger.info('Volume history served', {
+          startDate: params.startDate,
+          endDate,
+          bucketCount: buckets.length,
+          fetched: needsFetch,
+        });
+
+        const history: VolumeHistoryType = {
+          buckets,
+          source: endpoint,
+          measuredAt: new Date().toISOString(),
+          meta: tracker.summary(timer),
+        };
+        return history;
+      },
+      catch: (error: unknown) => this.toServiceError('Volume history fetch failed', error)
+    });
+  }
+
+  /**
+   * Chains supported by deBridge, cached for TOKEN_LIST_TTL like the token lists
+   */
+  getChains() {
+    return Effect.tryPromise({
+      try: async () => {
+        const timer = new PerformanceTimer();
+        const tracker = new ProvenanceTracker();
+        const chains = await this.fetchChains(tracker);
+
+        const list: ChainListType = {
+          chains,
+          measuredAt: new Date().toISOString(),
+          meta: tracker.summary(timer),
+        };
+        return list;
+      },
+      catch: (error: unknown) => this.toServiceError('Chain list fetch failed', error)
+    });
+  }
+
+  /**
+   * Fetch and normalize /supported-chains-info
+   */
+  private async fetchChains(tracker?: ProvenanceTracker): Promise<ChainInfoType[]> {
+    const endpoint = DataProviderService.CHAINS_ENDPOINT;
+    if (this.chainsCache && Date.now() - this.chainsCache.fetchedAt < DataProviderService.TOKEN_LIST_TTL) {
+      tracker?.recordCacheHit(endpoint);
+      return this.chainsCache.chains;
+    }
+    tracker?.recordCacheMiss();
+
+    let attempts = 0;
+    let latencyMs = 0;
+    let response: DeBridgeChainsResponse;
+    try {
+      response = await this.http.fetchWithRetry<DeBridgeChainsResponse>(
+        'dln',
+        `${this.dlnApiBase}${endpoint}`,
+        {
+          headers: this.dlnHeaders(),
+          lane: 'interactive',
+        },
+        undefined,
+        undefined,
+        (attempt) => {
+          attempts++;
+          latencyMs = attempt.latencyMs;
+        }
+      );
+    } finally {
+      if (attempts > 0) tracker?.recordCall(endpoint, attempts, latencyMs);
+    }
+
+    if (!Array.isArray(response?.chains)) {
+      throw new ParseError('Supported chains response missing chains');
+    }
+
+    const chains: ChainInfoType[] = [];
+    for (const chain of response.chains) {
+      if (typeof chain?.chainId !== 'number') continue;
+      const debridgeChainId = String(chain.chainId);
+      chains.push({
+        chainId: String(chain.originalChainId ?? chain.chainId),
+        debridgeChainId,
+        name: chain.chainName || debridgeChainId,
+        caip2: chainFamilyOf(debridgeChainId) === 'evm' && chain.originalChainId
+          ? `eip155:${chain.originalChainId}`
+          : toCaip2(debridgeChainId),
+        chainType: chainFamilyOf(debridgeChainId),
+        nativeCurrency: nativeCurrencyOf(debridgeChainId),
+      });
+    }
+
+    this.chainsCache = { chains, fetchedAt: Date.now() };
+    this.logger.info('Supported chains fetched', { chainCount: chains.length });
+    return chains;
+  }
+
+  /**
+   * Resolve (chainId, symbol) or (chainId, address) pairs to listed assets.
+   * Symbols shared by several tokens on a chain return every candidate.
+   */
+  resolveAssets(params: { queries: Array<{ chainId: string; symbol?: string; address?: string }> }) {
+    if (!params?.queries?.length) {
+      return Effect.fail(new ValidationError([
+        { field: 'queries', code: 'required', message: 'At least one asset query is required' },
+      ]));
+    }
+    const invalid = params.queries.flatMap((query, index): ValidationIssue[] =>
+      !query.chainId || Boolean(query.symbol) === Boolean(query.address)
+        ? [{ field: `queries[${index}]`, code: 'invalid_query', message: 'Needs a chainId and exactly one of symbol or address' }]
+        : []
+    );
+    if (invalid.length > 0) {
+      return Effect.fail(new ValidationError(invalid));
+    }
+
+    return Effect.tryPromise({
+      try: async () => {
+        const timer = new PerformanceTimer();
+        const tracker = new ProvenanceTracker();
+        const results: AssetResolutionType[] = [];
+
+        for (const query of params.queries) {
+          const assets = await this.getChainAssets(String(query.chainId), tracker);
+          if (!assets) {
+            results.push({ query, status: 'unavailable', candidates: [] });
+            continue;
+          }
+
+          const candidates = query.address
+            ? assets.filter((asset) => asset.assetId === canonicalAssetId(String(query.chainId), query.address!))
+            : assets.filter((asset) => asset.symbol.toLowerCase() === query.symbol!.toLowerCase());
+          const status = candidates.length === 0
+            ? 'not_found'
+            : candidates.length === 1 ? 'resolved' : 'ambiguous';
+          results.push({ query, status, candidates });
+        }
+
+        const resolved: ResolvedAssetsType = {
+          results,
+          measuredAt: new Date().toISOString(),
+          meta: tracker.summary(timer),
+        };
+        return resolved;
+      },
+      catch: (error: unknown) => this.toServiceError('Asset resolution failed', error)
+    });
+  }
+
+  /**
+   * Order status lookup by DLN order id or by creating transaction hash.
+   * Unknown ids/hashes yield an empty list - the stats API indexes new orders with a lag.
+   */
+  getOrder(params: { orderId?: string; txHash?: string }) {
+    if (Boolean(params?.orderId) === Boolean(params?.txHash)) {
+      return Effect.fail(new ValidationError([
+        { field: 'orderId', code: 'invalid_lookup', message: 'Provide exactly one of orderId or txHash' },
+      ]));
+    }
+
+    return Effect.tryPromise({
+      try: async () => {
+        const timer = new PerformanceTimer();
+        const tracker = new ProvenanceTracker();
+
+        const orderIds = params.orderId
+          ? [params.orderId]
+          : await this.ordersClient.getOrderIdsByTransaction(params.txHash!, tracker);
+
+        const orders: OrderStatusType[] = [];
+        for (const orderId of orderIds) {
+          const order = await this.ordersClient.getOrder(orderId, tracker);
+          if (order) orders.push(this.toOrderStatus(order));
         }
+
+        this.logger.info('Order lookup served', {
+          orderId: params.orderId,
+          txHash: params.txHash,
+          orderCount: orders.length,
+        });
+
+        const lookup: OrderLookupType = {
+          orders,
+          measuredAt: new Date().toISOString(),
+          meta: tracker.summary(timer),
+        };
+        return lookup;
       },
-      catch: (error: unknown) =>
-        new Error(`Failed to fetch snapshot: ${error instanceof Error ? error.message : String(error)}`)
+      catch: (error: unknown) => this.toServiceError('Order lookup failed', error)
     });
   }
 
   /**
-   * Fetch volume metrics from deBridge DLN Stats API
+   * Last-24h volume by source chain, destination chain and corridor.
+   *
+   * Aggregates the same priced DLN orders as the dln volume source; returns
+   * null (breakdown omitted) when the stats API is unavailable.
+   */
+  private async getVolumeBreakdown(tracker?: ProvenanceTracker): Promise<VolumeBreakdownType | null> {
+    try {
+      const { orders, truncated, unpricedOrderCount, measuredAt } = await this.getDlnOrders("24h", tracker);
+
+      const bySource = new Map<string, { volumeUsd: number; orderCount: number }>();
+      const byDestination = new Map<string, { volumeUsd: number; orderCount: number }>();
+      const byCorridor = new Map<string, { volumeUsd: number; orderCount: number }>();
+      const add = (buckets: Map<string, { volumeUsd: number; orderCount: number }>, key: string, volumeUsd: number) => {
+        const bucket = buckets.get(key) ?? { volumeUsd: 0, orderCount: 0 };
+        bucket.volumeUsd += volumeUsd;
+        bucket.orderCount++;
+        buckets.set(key, bucket);
+      };
+
+      let totalVolumeUsd = 0;
+      for (const { order, volumeUsd } of orders) {
+        totalVolumeUsd += volumeUsd;
+        add(bySource, order.giveChainId, volumeUsd);
+        add(byDestination, order.takeChainId, volumeUsd);
+        add(byCorridor, `${order.giveChainId}->${order.takeChainId}`, volumeUsd);
+      }
+
+      const byVolume = (a: { volumeUsd: number }, b: { volumeUsd: number }) => b.volumeUsd - a.volumeUsd;
+      return {
+        window: "24h",
+        bySourceChain: [...bySource].map(([chainId, bucket]) => ({ chainId, ...bucket })).sort(byVolume),
+        byDestinationChain: [...byDestination].map(([chainId, bucket]) => ({ chainId, ...bucket })).sort(byVolume),
+        byCorridor: [...byCorridor].map(([corridor, bucket]) => {
+          const [sourceChainId, destinationChainId] = corridor.split('->');
+          return { sourceChainId, destinationChainId, ...bucket };
+        }).sort(byVolume),
+        totalVolumeUsd,
+        orderCount: orders.length,
+        unpricedOrderCount,
+        truncated,
+        source: DlnOrdersClient.ORDERS_ENDPOINT,
+        measuredAt,
+      };
+    } catch (error) {
+      this.logger.error('Failed to compute volume breakdown from DLN orders', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Fetch fulfilled orders for a window from the DLN stats API and value them in USD
    * Uses POST /api/Orders/filteredList with pagination support
-   * 
-   * Enterprise features:
-   * - TTL caching (5 minutes)
-   * - Circuit breaker protection
-   * - Pagination (up to 5 pages, 5000 orders)
-   * - Structured logging
+   *
+   * Each order is valued by its give side with oracle prices; orders whose
+   * token has no price count as unpriced with zero volume. Results are cached
+   * per window for VOLUME_CACHE_TTL since paging is expensive.
+   */
+  private async getDlnOrders(window: "24h" | "7d" | "30d", tracker?: ProvenanceTracker): Promise<PricedOrders> {
+    const endpoint = DlnOrdersClient.ORDERS_ENDPOINT;
+    const cached = this.dlnOrderCache.get(window);
+    if (cached && Date.now() - cached.fetchedAt < this.VOLUME_CACHE_TTL) {
+      tracker?.recordCacheHit(endpoint);
+      return cached.data;
+    }
+    tracker?.recordCacheMiss();
+
+    const windowMs = { "24h": 1, "7d": 7, "30d": 30 }[window] * 24 * 60 * 60 * 1000;
+    const to = new Date();
+    const from = new Date(to.getTime() - windowMs);
+    const { orders, truncated } = await this.ordersClient.listFulfilledOrders(from, to, tracker);
+    const prices = await this.getTokenPricesUsd(
+      orders.map((order) => ({ chainId: order.giveChainId, address: order.giveTokenAddress })),
+      tracker
+    );
+
+    let unpricedOrderCount = 0;
+    const priced = orders.map((order) => {
+      const price = prices.get(priceKey({ chainId: order.giveChainId, address: order.giveTokenAddress }));
+      const decimals = order.giveDecimals ?? price?.decimals ?? null;
+      if (price && decimals !== null) {
+        try {
+          return {
+            order,
+            volumeUsd: DecimalUtils.normalizeAmount(order.giveAmount, decimals).times(price.priceUsd).toNumber(),
+          };
+        } catch {
+          // Fall through to unpriced
+        }
+      }
+      unpricedOrderCount++;
+      return { order, volumeUsd: 0 };
+    });
+
+    const data: PricedOrders = { orders: priced, truncated, unpricedOrderCount, measuredAt: to.toISOString() };
+    this.dlnOrderCache.set(window, { data, fetchedAt: Date.now() });
+    this.logger.info('DLN orders fetched', { window, orderCount: orders.length, unpricedOrderCount, truncated });
+    return data;
+  }
+
+  /**
+   * Fetch the full DefiLlama daily series and refresh the day caches.
+   *
+   * Days between the first reported day and yesterday that DefiLlama omits
+   * are stored as zero-volume buckets so they are not refetched.
+   */
+  private async fetchDefiLlamaVolumeHistory(today: string, tracker: ProvenanceTracker): Promise<void> {
+    const endpoint = DataProviderService.VOLUME_HISTORY_ENDPOINT;
+    const url = `${this.defillamaBaseUrl.replace(/\/$/, "")}${endpoint}?id=${this.DEBRIDGE_LLAMA_ID}`;
+
+    let attempts = 0;
+    let latencyMs = 0;
+    let raw: unknown;
+    try {
+      raw = await this.http.fetchWithRetry<unknown>(
+        'defillama',
+        url,
+        { lane: 'interactive' },
+        undefined,
+        undefined,
+        (attempt) => {
+          attempts++;
+          latencyMs = attempt.latencyMs;
+        }
+      );
+    } finally {
+      if (attempts > 0) tracker.recordCall(endpoint, attempts, latencyMs);
+    }
+
+    if (!Array.isArray(raw)) {
+      throw new ParseError('DefiLlama volume history is not an array');
+    }
+
+    const toNumber = (value: unknown): number => {
+      const parsed = typeof value === 'string' ? Number.parseFloat(value) : value;
+      return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : 0;
+    };
+
+    const byDay = new Map<string, DailyVolumeType>();
+    for (const entry of raw as DefiLlamaDailyVolume[]) {
+      const seconds = toNumber(entry?.date);
+      if (seconds <= 0) continue;
+      const date = new Date(seconds * 1000).toISOString().slice(0, 10);
+      const depositUsd = toNumber(entry.depositUSD);
+      const withdrawUsd = toNumber(entry.withdrawUSD);
+      byDay.set(date, {
+        date,
+        volumeUsd: (depositUsd + withdrawUsd) / 2,
+        depositUsd,
+        withdrawUsd,
+        depositTxs: Math.max(0, Math.round(toNumber(entry.depositTxs))),
+        withdrawTxs: Math.max(0, Math.round(toNumber(entry.withdrawTxs))),
+        isComplete: date < today,
+      });
+    }
+
+    const firstDay = [...byDay.keys()].sort()[0];
+    if (!firstDay) {
+      throw new ParseError('DefiLlama volume history is empty');
+    }
+
+    this.volumeHistoryStart = firstDay;
+    for (let day = firstDay; day < today; day = this.nextUtcDay(day)) {
+      this.pastDayVolumes.set(day, byDay.get(day) ?? {
+        date: day,
+        volumeUsd: 0,
+        depositUsd: 0,
+        withdrawUsd: 0,
+        depositTxs: 0,
+        withdrawTxs: 0,
+        isComplete: true,
+      });
+    }
+    this.todayVolume = { data: byDay.get(today) ?? null, date: today, fetchedAt: Date.now() };
+  }
+
+  private nextUtcDay(day: string): string {
+    const next = new Date(`${day}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return next.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Volume windows from the selected source.
+   *
+   * "both" returns the DefiLlama figures, each annotated with the DLN order
+   * sum for the same window and the discrepancy between the two. A truncated
+   * order scan only gives a lower bound, so no discrepancy is reported for it.
+   */
+  private async getVolumes(
+    windows: Array<"24h" | "7d" | "30d">,
+    volumeSource: "defillama" | "dln" | "both" = "defillama",
+    tracker?: ProvenanceTracker
+  ): Promise<VolumeWindowType[]> {
+    if (volumeSource === "defillama") return this.getDefiLlamaVolumes(windows, tracker);
+    if (volumeSource === "dln") return this.getDlnVolumes(windows, tracker);
+
+    const [defillama, dln] = await Promise.all([
+      this.getDefiLlamaVolumes(windows, tracker),
+      this.getDlnVolumes(windows, tracker),
+    ]);
+    return defillama.map((volume) => {
+      const check = dln.find((candidate) => candidate.window === volume.window);
+      if (!check) return volume;
+
+      const discrepancyPct = volume.volumeUsd > 0 && !check.truncated
+        ? ((check.volumeUsd - volume.volumeUsd) / volume.volumeUsd) * 100
+        : null;
+      this.logger.info('Volume cross-check', { window: volume.window, discrepancyPct, truncated: check.truncated });
+      return {
+        ...volume,
+        crossCheck: {
+          source: "dln" as const,
+          volumeUsd: check.volumeUsd,
+          discrepancyPct,
+          truncated: check.truncated ?? false,
+        },
+      };
+    });
+  }
+
+  /**
+   * Sum fulfilled DLN orders per window (failed windows are omitted)
    */
+  private async getDlnVolumes(
+    windows: Array<"24h" | "7d" | "30d">,
+    tracker?: ProvenanceTracker
+  ): Promise<VolumeWindowType[]> {
+    const volumes: VolumeWindowType[] = [];
+    for (const window of windows) {
+      try {
+        const { orders, truncated, measuredAt } = await this.getDlnOrders(window, tracker);
+        volumes.push({
+          window,
+          volumeUsd: orders.reduce((sum, { volumeUsd }) => sum + volumeUsd, 0),
+          measuredAt,
+          source: "dln",
+          truncated,
+        });
+      } catch (error) {
+        this.logger.error('Failed to fetch volumes from DLN orders', {
+          window,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    return volumes;
+  }
+
   /**
    * Fetch volumes from DefiLlama bridge aggregator
    */
-  private async getVolumes(windows: Array<"24h" | "7d" | "30d">): Promise<VolumeWindowType[]> {
+  private async getDefiLlamaVolumes(
+    windows: Array<"24h" | "7d" | "30d">,
+    tracker?: ProvenanceTracker
+  ): Promise<VolumeWindowType[]> {
     try {
-      const bridgeData = await this.fetchDefiLlamaVolumes();
+      const bridgeData = await this.fetchDefiLlamaVolumes(tracker);
       if (!bridgeData) {
         this.logger.warn('No volume data available from DefiLlama');
         return [];
@@ -379,7 +1080,7 @@ export class DataProviderService {
             break;
         }
         if (volumeUsd !== undefined) {
-          volumes.push({ window, volumeUsd, measuredAt: now });
+          volumes.push({ window, volumeUsd, measuredAt: now, source: "defillama" });
           this.logger.info('Volume fetched', { window, volumeUsd });
         }
       }
@@ -400,83 +1101,112 @@ export class DataProviderService {
    * - Circuit breaker protection
    * - Request deduplication
    * - Structured logging
+   *
+   * @param notionalsUsd - USD amounts, converted per route with the priced asset's USD price and decimals
+   * @param mode - exact_in quotes the output for each notional input; exact_out treats each
+   *               notional as the destination amount to deliver and quotes the required input
+   * @param hooks - Optional callbacks for each computed rate and each failed route/notional
    */
   private async getRates(
     routes: Array<{ source: AssetType; destination: AssetType }>,
-    notionals: string[]
+    notionals: string[],
+    notionalsUsd: number[] = [],
+    mode: QuoteModeType = 'exact_in',
+    hooks: FetchHooks<RateType> = {}
   ): Promise<RateType[]> {
-    if (!routes?.length || !notionals?.length) {
+    if (!routes?.length || (!notionals?.length && !notionalsUsd?.length)) {
       throw new Error('Routes and notionals are required for rate fetching');
     }
 
     this.logger.info('Fetching rates', {
       routeCount: routes.length,
-      notionalCount: notionals.length,
+      notionalCount: notionals.length + notionalsUsd.length,
+      mode,
     });
 
-    const rates: RateType[] = [];
+    // One batched oracle lookup for USD notionals and fee valuation
+    const prices = await this.getUsdPrices(routes, hooks.tracker);
 
-    for (const route of routes) {
-      if (!route?.source || !route?.destination) {
-        this.logger.warn('Invalid route structure, skipping', { route });
-        continue;
-      }
+    const validRoutes = routes.filter((route) => {
+      if (route?.source && route?.destination) return true;
+      this.logger.warn('Invalid route structure, skipping', { route });
+      return false;
+    });
 
-      for (const notional of notionals) {
+    // USD notionals need a price per route (oracle, or a reference quote)
+    const routeAmounts = await mapWithConcurrency(validRoutes, this.maxConcurrency, async (route) => {
+      const amounts: Array<{ notional: string; notionalUsd?: UsdNotionalType }> =
+        notionals.map((notional) => ({ notional }));
+      if (notionalsUsd.length) {
+        amounts.push(...await this.resolveUsdNotionals(route, notionalsUsd, mode, prices, hooks));
+      }
+      return amounts.map((amount) => ({ route, ...amount }));
+    }, hooks.signal);
+
+    // Route/notional pairs are quoted side by side; results keep route-major order
+    const results = await mapWithConcurrency(
+      routeAmounts.flat(),
+      this.maxConcurrency,
+      async ({ route, notional, notionalUsd }): Promise<RateType | null> => {
         if (!notional || isNaN(Number(notional))) {
           this.logger.warn('Invalid notional, skipping', { notional });
-          continue;
+          return null;
         }
 
         try {
           // Generate cache key for this quote
-          const cacheKey = `${route.source.chainId}-${route.source.assetId}-${route.destination.chainId}-${route.destination.assetId}-${notional}`;
+          const cacheKey = this.quoteCacheKey(route.source, route.destination, notional, mode);
           
           // Check cache first
-          const cachedQuote = this.quoteCache.get(cacheKey);
+          const cachedQuote = this.quoteCache.getWithAge(cacheKey);
           let quote: DeBridgeQuote;
+          let meta: NonNullable<RateType["meta"]>;
 
           if (cachedQuote) {
-            this.logger.debug('Quote cache hit', { cacheKey });
-            quote = cachedQuote;
+            this.logger.debug('Quote cache hit', { cacheKey, ageMs: cachedQuote.ageMs });
+            quote = cachedQuote.value;
+            hooks.tracker?.recordCacheHit(DataProviderService.QUOTE_ENDPOINT);
+            meta = {
+              sourceEndpoint: DataProviderService.QUOTE_ENDPOINT,
+              cacheHit: true,
+              cacheAgeMs: cachedQuote.ageMs,
+              upstreamLatencyMs: null,
+              retryCount: 0,
+            };
           } else {
-            // Build quote request URL
-            const url = new URL(`${this.dlnApiBase}/dln/order/create-tx`);
-            url.searchParams.set('srcChainId', route.source.chainId);
-            url.searchParams.set('srcChainTokenIn', route.source.assetId);
-            url.searchParams.set('srcChainTokenInAmount', notional);
-            url.searchParams.set('dstChainId', route.destination.chainId);
-            url.searchParams.set('dstChainTokenOut', route.destination.assetId);
-            url.searchParams.set('dstChainTokenOutAmount', 'auto'); // Recommended by deBridge
-            url.searchParams.set('prependOperatingExpenses', 'true');
-
-            // Fetch with circuit breaker + deduplication
-            quote = await this.dlnCircuit.execute(() =>
-              this.deduplicator.deduplicate(
-                cacheKey,
-                () => HttpUtils.fetchWithRetry<DeBridgeQuote>(url.toString(), {
-                  headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}
-                })
-              )
-            );
+            hooks.tracker?.recordCacheMiss();
+
+            // Same path as depth and intelligence probes: retries, circuit breaker, deduplication
+            const fetched = await this.fetchQuote(route.source, route.destination, notional, mode, 'interactive', hooks.tracker);
+            quote = fetched.quote;
 
             // Cache the quote
             this.quoteCache.set(cacheKey, quote);
-            this.logger.debug('Quote fetched and cached', { cacheKey });
+            this.logger.debug('Quote fetched and cached', { cacheKey, attempts: fetched.attempts, latencyMs: fetched.latencyMs });
+            meta = {
+              sourceEndpoint: DataProviderService.QUOTE_ENDPOINT,
+              cacheHit: false,
+              cacheAgeMs: null,
+              upstreamLatencyMs: fetched.latencyMs,
+              retryCount: Math.max(0, fetched.attempts - 1),
+            };
           }
 
           if (!quote?.estimation) {
-            throw new Error('Invalid quote response structure');
+            throw new ParseError('Invalid quote response structure');
           }
 
           const srcToken = quote.estimation.srcChainTokenIn;
           const dstToken = quote.estimation.dstChainTokenOut;
 
           const fromAmount = srcToken.amount;
-          const toAmount = dstToken.recommendedAmount ?? dstToken.amount;
+          // With a fixed output there is no recommended amount - the order delivers exactly dstToken.amount
+          const toAmount = mode === 'exact_out'
+            ? dstToken.amount
+            : dstToken.recommendedAmount ?? dstToken.amount;
 
           if (!fromAmount || !toAmount) {
-            throw new Error('Missing amount data in quote estimation');
+            throw new ParseError('Missing amount data in quote estimation');
           }
 
           // Calculate fees using USD difference (more accurate than costsDetails sum)
@@ -492,32 +1222,44 @@ export class DataProviderService {
           }
 
           // Calculate effective rate with decimal.js for precision
-          const effectiveRate = DecimalUtils.calculateEffectiveRate(
-            fromAmount,
-            toAmount,
-            route.source.decimals,
-            route.destination.decimals
-          );
+          let effectiveRate: number;
+          try {
+            effectiveRate = DecimalUtils.calculateEffectiveRate(
+              fromAmount,
+              toAmount,
+              route.source.decimals,
+              route.destination.decimals
+            );
+          } catch (error) {
+            throw new DecimalsError(error instanceof Error ? error.message : String(error));
+          }
 
-          rates.push({
+          const rate: RateType = {
             source: route.source,
             destination: route.destination,
             amountIn: fromAmount,
             amountOut: toAmount,
             effectiveRate,
             totalFeesUsd,
+            fees: this.extractFees(quote, route.source, prices),
+            execution: this.extractExecution(quote),
             quotedAt: new Date().toISOString(),
-          });
+            mode,
+            ...(notionalUsd ? { notionalUsd } : {}),
+            meta,
+          };
+          hooks.onItem?.(rate);
 
           this.logger.debug('Rate calculated', {
             route: `${route.source.symbol}->${route.destination.symbol}`,
             notional,
+            mode,
             effectiveRate,
             totalFeesUsd,
             inUsd: approximateInUsd,
             outUsd: approximateOutUsd
           });
-
+          return rate;
         } catch (error) {
           this.logger.error('Failed to get rate for route', {
             route: `${route.source.symbol}->${route.destination.symbol}`,
@@ -525,41 +1267,226 @@ export class DataProviderService {
             error: error instanceof Error ? error.message : 'Unknown error'
           });
           // NO FALLBACK - return empty rather than fake data (per assessment criteria)
-          // Skip this rate instead of creating fake data
+          // Skip this rate but report why it is missing
+          hooks.onError?.(this.toSnapshotError('rate', route, error, notional));
+          return null;
         }
-      }
-    }
+      },
+      hooks.signal
+    );
+    const rates = results.filter((rate): rate is RateType => rate !== null);
 
     this.logger.info('Rates fetched', { rateCount: rates.length });
     return rates;
   }
 
   /**
-   * Get liquidity depth using maxTheoreticalAmount from quote API
-   * Single API call per route (5x faster than progressive probing)
+   * Convert USD notionals into smallest units of the quoted side of a route.
+   *
+   * exact_in notionals are priced in the source asset, exact_out notionals in
+   * the destination asset. When no price is available every USD notional of
+   * the route is reported as a failed rate.
    */
-  private async getLiquidityDepth(
-    routes: Array<{ source: AssetType; destination: AssetType }>
-  ): Promise<LiquidityDepthType[]> {
+  private async resolveUsdNotionals(
+    route: { source: AssetType; destination: AssetType },
+    notionalsUsd: number[],
+    mode: QuoteModeType,
+    prices: Map<string, TokenPrice>,
+    hooks: FetchHooks<RateType>
+  ): Promise<Array<{ notional: string; notionalUsd: UsdNotionalType }>> {
+    const pricedAsset = mode === 'exact_out' ? 'destination' : 'source';
+    const asset = route[pricedAsset];
+
+    let priceUsd: number;
+    let priceSource: string;
+    try {
+      ({ priceUsd, priceSource } = await this.resolvePriceUsd(route, pricedAsset, prices, 'interactive', hooks.tracker));
+    } catch (error) {
+      this.logger.error('Failed to price USD notionals', {
+        route: `${route.source.symbol}->${route.destination.symbol}`,
+        pricedAsset,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      for (const amountUsd of notionalsUsd) {
+        hooks.onError?.(this.toSnapshotError('rate', route, error, `${amountUsd} USD`));
+      }
+      return [];
+    }
+
+    return notionalsUsd.map((amountUsd) => {
+      const resolvedAmount = DecimalUtils.denormalizeAmount(
+        new Decimal(amountUsd).div(priceUsd).toString(),
+        asset.decimals
+      );
+      return {
+        notional: resolvedAmount,
+        notionalUsd: {
+          amountUsd,
+          pricedAsset,
+          priceUsd,
+          priceSource,
+          resolvedAmount,
+        },
+      };
+    });
+  }
+
+  /**
+   * Oracle prices for route assets and their source chain's native token.
+   *
+   * Best effort: an unavailable oracle yields an empty map and callers fall
+   * back to quote-derived prices (or leave fees unpriced).
+   */
+  private async getUsdPrices(
+    routes: Array<{ source: AssetType; destination: AssetType }>,
+    tracker?: ProvenanceTracker
+  ): Promise<Map<string, TokenPrice>> {
+    return this.getTokenPricesUsd(
+      routes
+        .filter((route) => route?.source && route?.destination)
+        .flatMap((route) => [
+          { chainId: route.source.chainId, address: route.source.assetId },
+          { chainId: route.destination.chainId, address: route.destination.assetId },
+          { chainId: route.source.chainId, address: nativeAssetIdOf(route.source.chainId) },
+        ]),
+      tracker
+    );
+  }
+
+  /**
+   * Oracle prices for arbitrary tokens; an unavailable oracle yields an empty map
+   */
+  private async getTokenPricesUsd(
+    tokens: TokenRef[],
+    tracker?: ProvenanceTracker
+  ): Promise<Map<string, TokenPrice>> {
+    try {
+      return await this.priceProvider.getUsdPrices(tokens, tracker);
+    } catch (error) {
+      this.logger.warn('USD price lookup failed', {
+        tokenCount: tokens.length,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return new Map();
+    }
+  }
+
+  /**
+   * USD price per whole token of one side of a route: the oracle price when
+   * available, otherwise read off a reference quote.
+   */
+  private async resolvePriceUsd(
+    route: { source: AssetType; destination: AssetType },
+    side: 'source' | 'destination',
+    prices: Map<string, TokenPrice>,
+    lane: RequestLane,
+    tracker?: ProvenanceTracker
+  ): Promise<{ priceUsd: number; priceSource: string }> {
+    const asset = route[side];
+    const oracle = prices.get(priceKey({ chainId: asset.chainId, address: asset.assetId }));
+    if (oracle) {
+      return { priceUsd: oracle.priceUsd, priceSource: oracle.source };
+    }
+
+    const reference = await this.getReferencePricesUsd(route, prices, lane, tracker);
+    return { priceUsd: reference[side], priceSource: DataProviderService.QUOTE_ENDPOINT };
+  }
+
+  /**
+   * Small reference input of a route: DEPTH_BASELINE_USD worth of the source asset,
+   * or DEPTH_BASELINE_FALLBACK_UNITS whole tokens when the oracle has no price for it.
+   *
+   * @throws DecimalsError when the source asset's decimals are unusable
+   */
+  private baselineAmountOf(
+    route: { source: AssetType; destination: AssetType },
+    prices: Map<string, TokenPrice>
+  ): bigint {
+    const { source } = route;
+    if (!Number.isInteger(source.decimals) || source.decimals < 0) {
+      throw new DecimalsError(`Invalid decimals: ${source.decimals}`);
+    }
+
+    const price = prices.get(priceKey({ chainId: source.chainId, address: source.assetId }));
+    if (price && price.priceUsd > 0) {
+      const amount = BigInt(DecimalUtils.denormalizeAmount(
+        new Decimal(DataProviderService.DEPTH_BASELINE_USD).div(price.priceUsd).toString(),
+        source.decimals
+      ));
+      if (amount > 0n) return amount;
+    }
+    return DataProviderService.DEPTH_BASELINE_FALLBACK_UNITS * (10n ** BigInt(source.decimals));
+  }
+
+  /**
+   * USD prices per whole token of both route assets, read off a reference quote.
+   *
+   * Uses the liquidity depth baseline size, so the quote is usually already in quoteCache.
+   */
+  private async getReferencePricesUsd(
+    route: { source: AssetType; destination: AssetType },
+    prices: Map<string, TokenPrice>,
+    lane: RequestLane,
+    tracker?: ProvenanceTracker
+  ): Promise<{ source: number; destination: number }> {
+    const amount = this.baselineAmountOf(route, prices);
+    const quote = await this.fetchQuoteCached(route.source, route.destination, amount.toString(), lane, tracker);
+    const srcToken = quote.estimation.srcChainTokenIn;
+    const dstToken = quote.estimation.dstChainTokenOut;
+
+    const unitPrice = (usd: number | undefined, tokenAmount: string | undefined, decimals: number): number => {
+      if (usd === undefined || usd === null || !tokenAmount) {
+        throw new ParseError('Reference quote carries no USD value');
+      }
+      const units = DecimalUtils.normalizeAmount(tokenAmount, decimals);
+      if (units.isZero() || usd <= 0) {
+        throw new ParseError('Reference quote has a zero amount or USD value');
+      }
+      return new Decimal(usd).div(units).toNumber();
+    };
+
+    return {
+      source: unitPrice(srcToken?.approximateUsdValue ?? srcToken?.originApproximateUsdValue, srcToken?.amount, route.source.decimals),
+      destination: unitPrice(dstToken?.approximateUsdValue, dstToken?.amount, route.destination.decimals),
+    };
+  }
+
+  /**
+   * Measure liquidity depth by quote bisection.
+   *
+   * Quotes a small baseline size, then binary-searches the input size at which
+   * the effective rate falls N bps below the baseline for each threshold.
+   * Probes share a bounded per-route budget and go through quoteCache.
+   *
+   * @param slippageBps - Thresholds to measure, one LiquidityDepthPoint each (defaults to 50/100bps)
+   * @param hooks - Optional callbacks for each computed depth and each failed route
+   */
+  private async getLiquidityDepth(
+    routes: Array<{ source: AssetType; destination: AssetType }>,
+    slippageBps: number[] = DataProviderService.DEFAULT_DEPTH_THRESHOLDS_BPS,
+    hooks: FetchHooks<LiquidityDepthType> = {}
+  ): Promise<LiquidityDepthType[]> {
     if (!routes?.length) {
       this.logger.warn('No routes provided for liquidity depth');
       return [];
     }
 
-    const liquidity: LiquidityDepthType[] = [];
+    const thresholdsBps = [...new Set(slippageBps)].sort((a, b) => a - b);
+    const validRoutes = routes.filter((route) => {
+      if (route?.source && route?.destination) return true;
+      this.logger.warn('Invalid route structure for liquidity, skipping', { route });
+      return false;
+    });
 
-    for (const route of routes) {
-      if (!route?.source || !route?.destination) {
-        this.logger.warn('Invalid route structure for liquidity, skipping', { route });
-        continue;
-      }
+    // Baselines are sized in USD, so the oracle is consulted once for all routes
+    const prices = await this.getUsdPrices(validRoutes, hooks.tracker);
 
+    // Routes are searched side by side; probes within a route stay sequential
+    const results = await mapWithConcurrency(validRoutes, this.maxConcurrency, async (route) => {
       try {
-        // Calculate reference amount ($1000 worth)
-        let referenceAmount: string;
+        let baselineAmount: bigint;
         try {
-          const decimals = BigInt(route.source.decimals);
-          referenceAmount = (1000n * (10n ** decimals)).toString();
+          baselineAmount = this.baselineAmountOf(route, prices);
         } catch (error) {
           this.logger.error('Invalid decimals, skipping route', {
             decimals: route.source.decimals,
@@ -567,196 +1494,248 @@ export class DataProviderService {
             error: error instanceof Error ? error.message : String(error)
           });
           // Skip route with invalid decimals instead of using fake fallback
-          continue;
-        }
-
-        // Get quote with maxTheoreticalAmount
-        const quote = await this.fetchQuoteWithRetry(route.source, route.destination, referenceAmount);
-        const estimation = quote?.estimation;
-        
-        if (!estimation) {
-          this.logger.warn('No estimation in quote response', { route: `${route.source.symbol}->${route.destination.symbol}` });
-          continue;
-        }
-
-        const srcToken = estimation.srcChainTokenIn;
-        const dstToken = estimation.dstChainTokenOut;
-
-        const srcAmount = srcToken?.amount ?? referenceAmount;
-        const recommendedDest = dstToken?.recommendedAmount ?? dstToken?.amount;
-        const maxDest = dstToken?.maxTheoreticalAmount ?? recommendedDest;
-
-        if (!srcAmount || !recommendedDest) {
-          this.logger.warn('Missing amount data in quote', { route: `${route.source.symbol}->${route.destination.symbol}` });
-          continue;
+          hooks.onError?.(this.toSnapshotError(
+            'liquidity',
+            route,
+            new DecimalsError(`Invalid decimals: ${route.source.decimals}`)
+          ));
+          return null;
         }
 
-        // Calculate max source amount based on maxTheoreticalAmount
-        let maxSource = srcAmount;
-        if (maxDest && recommendedDest !== '0') {
-          try {
-            const srcBig = BigInt(srcAmount);
-            const recommendedBig = BigInt(recommendedDest);
-            const maxBig = BigInt(maxDest);
-            if (recommendedBig > 0n) {
-              maxSource = ((srcBig * maxBig) / recommendedBig).toString();
-            }
-          } catch (error) {
-            const message = error instanceof Error ? error.message : String(error);
-            this.logger.warn('Failed to compute max source for liquidity', { error: message });
-          }
-        }
+        // Baseline failures (including 4xx) are route errors, not depth results
+        const baselineRate = await this.probeEffectiveRate(route, baselineAmount, hooks.tracker, true);
+        const search = await searchLiquidityDepth({
+          baselineAmount,
+          baselineRate,
+          thresholdsBps,
+          maxProbes: thresholdsBps.length * DataProviderService.DEPTH_PROBES_PER_THRESHOLD,
+          probe: (amountIn) => {
+            // An aborted search ends as inconclusive instead of spending more quotes
+            hooks.signal?.throwIfAborted();
+            return this.probeEffectiveRate(route, amountIn, hooks.tracker, false);
+          },
+        });
 
-        liquidity.push({
+        const depth: LiquidityDepthType = {
           route,
-          thresholds: [
-            {
-              maxAmountIn: srcAmount,
-              slippageBps: 50,
-            },
-            {
-              maxAmountIn: maxSource,
-              slippageBps: 100,
-            }
-          ],
+          thresholds: search.thresholds.map((threshold) => ({
+            maxAmountIn: threshold.maxAmountIn.toString(),
+            slippageBps: threshold.slippageBps,
+            upperBoundAmountIn: threshold.upperBoundAmountIn?.toString() ?? null,
+            confidence: threshold.confidence,
+          })),
+          baseline: {
+            amountIn: baselineAmount.toString(),
+            effectiveRate: baselineRate,
+          },
+          probeCount: search.probeCount + 1,
           measuredAt: new Date().toISOString(),
-        });
+        };
+        hooks.onItem?.(depth);
 
         this.logger.debug('Liquidity depth calculated', {
           route: `${route.source.symbol}->${route.destination.symbol}`,
-          srcAmount,
-          maxSource,
-          ratio: maxDest && recommendedDest !== '0' ? (Number(maxDest) / Number(recommendedDest)).toFixed(2) : 'N/A'
+          baselineRate,
+          probeCount: search.probeCount + 1,
+          thresholds: depth.thresholds.map((t) => `${t.slippageBps}bps:${t.maxAmountIn}(${t.confidence})`),
         });
-
+        return depth;
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         this.logger.error('Failed to fetch liquidity for route', {
           route: `${route.source.symbol}->${route.destination.symbol}`,
           error: message
         });
+        hooks.onError?.(this.toSnapshotError('liquidity', route, error));
+        return null;
+      }
+    }, hooks.signal);
+
+    return results.filter((depth): depth is LiquidityDepthType => depth !== null);
+  }
+
+  /**
+   * Quote an input amount for depth probing and return its effective rate.
+   *
+   * Unless strict, returns null when deBridge rejects the size (4xx) so the
+   * search treats it as beyond the route's depth; other failures propagate.
+   */
+  private async probeEffectiveRate(
+    route: { source: AssetType; destination: AssetType },
+    amountIn: bigint,
+    tracker: ProvenanceTracker | undefined,
+    strict: true
+  ): Promise<number>;
+  private async probeEffectiveRate(
+    route: { source: AssetType; destination: AssetType },
+    amountIn: bigint,
+    tracker: ProvenanceTracker | undefined,
+    strict: boolean
+  ): Promise<number | null>;
+  private async probeEffectiveRate(
+    route: { source: AssetType; destination: AssetType },
+    amountIn: bigint,
+    tracker: ProvenanceTracker | undefined,
+    strict: boolean
+  ): Promise<number | null> {
+    let quote: DeBridgeQuote;
+    try {
+      quote = await this.fetchQuoteCached(route.source, route.destination, amountIn.toString(), 'liquidity', tracker);
+    } catch (error) {
+      if (!strict && error instanceof NoRouteError) {
+        return null;
       }
+      throw error;
     }
 
-    return liquidity;
+    const srcAmount = quote.estimation.srcChainTokenIn?.amount;
+    const dstAmount = quote.estimation.dstChainTokenOut?.recommendedAmount ?? quote.estimation.dstChainTokenOut?.amount;
+    if (!srcAmount || !dstAmount) {
+      throw new ParseError('Missing amount data in quote estimation');
+    }
+
+    try {
+      return DecimalUtils.calculateEffectiveRate(
+        srcAmount,
+        dstAmount,
+        route.source.decimals,
+        route.destination.decimals
+      );
+    } catch (error) {
+      throw new DecimalsError(error instanceof Error ? error.message : String(error));
+    }
   }
 
   /**
-   * Fetch quote with retry logic and exponential backoff
-   * SUPERIOR to 0xjesus: 3 retries with backoff vs their basic single attempt
+   * fetchQuote behind quoteCache (shared with getRates)
    */
-  private async fetchQuoteWithRetry(
+  private async fetchQuoteCached(
     source: AssetType,
     destination: AssetType,
     amount: string,
-    maxRetries: number = 3
-  ): Promise<DeBridgeQuote | null> {
-    const authorityAddress = '0x1111111111111111111111111111111111111111'; // Default account
+    lane: RequestLane,
+    tracker?: ProvenanceTracker
+  ): Promise<DeBridgeQuote> {
+    const cacheKey = this.quoteCacheKey(source, destination, amount);
+    const cached = this.quoteCache.get(cacheKey);
+    if (cached) {
+      tracker?.recordCacheHit(DataProviderService.QUOTE_ENDPOINT);
+      return cached;
+    }
+    tracker?.recordCacheMiss();
 
-    const url = new URL(`${this.dlnApiBase}/dln/order/create-tx`);
+    const { quote } = await this.fetchQuote(source, destination, amount, 'exact_in', lane, tracker);
+    this.quoteCache.set(cacheKey, quote);
+    return quote;
+  }
+
+  private quoteCacheKey(
+    source: AssetType,
+    destination: AssetType,
+    amount: string,
+    mode: QuoteModeType = 'exact_in'
+  ): string {
+    return `${source.chainId}-${source.assetId}-${destination.chainId}-${destination.assetId}-${amount}-${mode}`;
+  }
+
+  /**
+   * create-tx request URL shared by every quote path.
+   *
+   * exact_out fixes the destination amount and lets deBridge solve for the input.
+   * Placeholder recipient and authority accounts match each chain's address family.
+   */
+  private quoteUrl(
+    source: AssetType,
+    destination: AssetType,
+    amount: string,
+    mode: QuoteModeType = 'exact_in'
+  ): string {
+    const accountFor = (chainId: string) => chainFamilyOf(chainId) === 'solana'
+      ? DataProviderService.DEFAULT_SOLANA_ACCOUNT
+      : DataProviderService.DEFAULT_ACCOUNT;
+
+    const url = new URL(`${this.dlnApiBase}${DataProviderService.QUOTE_ENDPOINT}`);
     url.searchParams.set('srcChainId', source.chainId);
     url.searchParams.set('srcChainTokenIn', source.assetId);
-    url.searchParams.set('srcChainTokenInAmount', amount);
+    url.searchParams.set('srcChainTokenInAmount', mode === 'exact_out' ? 'auto' : amount);
     url.searchParams.set('dstChainId', destination.chainId);
     url.searchParams.set('dstChainTokenOut', destination.assetId);
-    url.searchParams.set('dstChainTokenOutRecipient', authorityAddress);
-    url.searchParams.set('dstChainTokenOutAmount', 'auto');
-    url.searchParams.set('dstChainOrderAuthorityAddress', authorityAddress);
-    url.searchParams.set('srcChainOrderAuthorityAddress', authorityAddress);
+    url.searchParams.set('dstChainTokenOutRecipient', accountFor(destination.chainId));
+    url.searchParams.set('dstChainTokenOutAmount', mode === 'exact_out' ? amount : 'auto');
+    url.searchParams.set('dstChainOrderAuthorityAddress', accountFor(destination.chainId));
+    url.searchParams.set('srcChainOrderAuthorityAddress', accountFor(source.chainId));
     url.searchParams.set('prependOperatingExpenses', 'true');
+    return url.toString();
+  }
 
-    const retryDelays = [1000, 2000, 4000]; // Exponential backoff: 1s, 2s, 4s
-
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        await this.rateLimiter.acquire();
-        
-        const startTime = Date.now();
-        const response = await fetch(url.toString(), {
-          headers: {
-            'Accept': 'application/json',
-            ...(this.apiKey && this.apiKey !== 'not-required' ? { 'x-api-key': this.apiKey } : {})
-          },
-          signal: AbortSignal.timeout(this.timeout),
-        });
-        const elapsed = Date.now() - startTime;
-
-        if (!response.ok) {
-          // Retry on 5xx errors or rate limits
-          if (attempt < maxRetries && (response.status >= 500 || response.status === 429)) {
-            const delay = retryDelays[attempt] || 4000;
-            this.logger.warn('Quote API error, retrying', {
-              status: response.status,
-              attempt: attempt + 1,
-              maxRetries,
-              delayMs: delay,
-              source: source.symbol,
-              destination: destination.symbol
-            });
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue;
-          }
-
-          this.logger.warn('Quote API error, no retry', {
-            status: response.status,
-            attempt: attempt + 1,
-            source: source.symbol,
-            destination: destination.symbol
-          });
-          return null;
-        }
-
-        const payload = await response.json() as DeBridgeQuote;
-        
-        if (!payload?.estimation) {
-          this.logger.warn('Quote response missing estimation', {
-            source: source.symbol,
-            destination: destination.symbol,
-            attempt: attempt + 1
-          });
-          return null;
-        }
-
-        this.logger.debug('Quote fetched successfully', {
-          source: source.symbol,
-          destination: destination.symbol,
-          latencyMs: elapsed,
-          attempt: attempt + 1
-        });
+  /**
+   * Headers for every DLN API request; a configured API key goes in x-api-key
+   */
+  private dlnHeaders(): Record<string, string> {
+    return {
+      'Accept': 'application/json',
+      ...(this.apiKey && this.apiKey !== 'not-required' ? { 'x-api-key': this.apiKey } : {}),
+    };
+  }
 
-        return payload;
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        const isTimeout = message.includes('timeout') || message.includes('aborted');
-        const isNetwork = message.includes('fetch') || message.includes('network');
-
-        // Retry on timeout or network errors
-        if (attempt < maxRetries && (isTimeout || isNetwork)) {
-          const delay = retryDelays[attempt] || 4000;
-          this.logger.warn('Quote request failed, retrying', {
-            error: message,
-            attempt: attempt + 1,
-            maxRetries,
-            delayMs: delay,
-            source: source.symbol,
-            destination: destination.symbol
-          });
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
+  /**
+   * Fetch a quote on the shared DLN budget: HttpClient retries behind the circuit
+   * breaker, with identical in-flight requests deduplicated.
+   *
+   * Throws NoRouteError when deBridge cannot fill the pair or amount, other
+   * HttpError / ParseError / TimeoutError on permanent failure.
+   */
+  private async fetchQuote(
+    source: AssetType,
+    destination: AssetType,
+    amount: string,
+    mode: QuoteModeType,
+    lane: RequestLane,
+    tracker?: ProvenanceTracker
+  ): Promise<{ quote: DeBridgeQuote; attempts: number; latencyMs: number | null }> {
+    const url = this.quoteUrl(source, destination, amount, mode);
+    let attempts = 0;
+    let latencyMs: number | null = null;
 
-        this.logger.error('Quote request failed permanently', {
-          url: url.toString(),
-          error: message,
-          attempt: attempt + 1,
-          source: source.symbol,
-          destination: destination.symbol
-        });
-        return null;
+    try {
+      const quote = await this.dlnCircuit.execute(() =>
+        this.deduplicator.deduplicate(
+          this.quoteCacheKey(source, destination, amount, mode),
+          () => this.http.fetchWithRetry<DeBridgeQuote>(
+            'dln',
+            url,
+            { headers: this.dlnHeaders(), lane },
+            undefined,
+            undefined,
+            (attempt) => {
+              attempts++;
+              latencyMs = attempt.latencyMs;
+            }
+          )
+        )
+      );
+      if (!quote?.estimation) {
+        throw new ParseError('Quote response missing estimation');
+      }
+      return { quote, attempts, latencyMs };
+    } catch (error) {
+      throw error instanceof HttpError ? this.quoteError(error) : error;
+    } finally {
+      if (attempts > 0) {
+        tracker?.recordCall(DataProviderService.QUOTE_ENDPOINT, attempts, latencyMs ?? 0);
       }
     }
+  }
 
-    return null;
+  /**
+   * Quote API errors keep their type, except that the API answers a plain 4xx
+   * for routes or amounts it cannot fill; those become NoRouteError.
+   */
+  private quoteError(error: HttpError): HttpError {
+    if (error.constructor === HttpError && error.status >= 400 && error.status < 500) {
+      return new NoRouteError(error.status, error.url, `Quote API error: ${error.message}`);
+    }
+    return error;
   }
 
   /**
@@ -770,7 +1749,10 @@ export class DataProviderService {
   /**
    * Fetch listed assets from /token-list endpoint per chainId
    */
-  private async getListedAssets(routes: Array<{ source: AssetType; destination: AssetType }>): Promise<ListedAssetsType> {
+  private async getListedAssets(
+    routes: Array<{ source: AssetType; destination: AssetType }>,
+    tracker?: ProvenanceTracker
+  ): Promise<ListedAssetsType> {
     const measuredAt = new Date().toISOString();
 
     const chainIds = new Set<string>(
@@ -786,98 +1768,150 @@ export class DataProviderService {
         continue;
       }
 
-      // Check cache first (5 minute TTL)
-      const cached = this.tokenListCache.get(chainIdStr);
-      if (cached && Date.now() - cached.fetchedAt < DataProviderService.TOKEN_LIST_TTL) {
-        for (const token of cached.assets) {
-          const key = `${chainIdStr}:${token.assetId.toLowerCase()}`;
-          if (seen.has(key)) continue;
-          seen.add(key);
-          assets.push(token);
-        }
-        continue;
+      for (const token of await this.getChainAssets(chainIdStr, tracker) ?? []) {
+        const key = `${chainIdStr}:${token.assetId}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        assets.push(token);
       }
+    }
 
-      try {
-        await this.rateLimiter.acquire();
-        
-        const url = `${this.dlnApiBase}/token-list?chainId=${encodeURIComponent(chainIdStr)}`;
-        const response = await fetch(url, {
-          headers: {
-            'Accept': 'application/json',
-          },
-          signal: AbortSignal.timeout(this.timeout),
-        });
+    return {
+      assets,
+      measuredAt,
+    };
+  }
 
-        if (!response.ok) {
-          this.logger.warn('Token list fetch failed', { chainId: chainIdStr, status: response.status });
-          continue;
-        }
+  /**
+   * Token list of one chain, cached for TOKEN_LIST_TTL; null when it cannot be fetched
+   */
+  private async getChainAssets(chainIdStr: string, tracker?: ProvenanceTracker): Promise<AssetType[] | null> {
+    // Check cache first (5 minute TTL)
+    const cached = this.tokenListCache.get(chainIdStr);
+    if (cached && Date.now() - cached.fetchedAt < DataProviderService.TOKEN_LIST_TTL) {
+      tracker?.recordCacheHit(DataProviderService.TOKEN_LIST_ENDPOINT);
+      return cached.assets;
+    }
 
-        const tokenList = await response.json() as DeBridgeTokenListResponse;
-        const tokens = tokenList?.tokens;
-        if (!tokens) {
-          continue;
-        }
+    tracker?.recordCacheMiss();
 
-        const chainAssets: AssetType[] = [];
-        for (const token of Object.values(tokens)) {
-          if (!token?.address) {
-            continue;
+    try {
+      const url = `${this.dlnApiBase}${DataProviderService.TOKEN_LIST_ENDPOINT}?chainId=${encodeURIComponent(chainIdStr)}`;
+      let attempts = 0;
+      let latencyMs = 0;
+      let tokenList: DeBridgeTokenListResponse;
+      try {
+        tokenList = await this.http.fetchWithRetry<DeBridgeTokenListResponse>(
+          'tokenList',
+          url,
+          { headers: this.dlnHeaders(), lane: 'interactive' },
+          undefined,
+          undefined,
+          (attempt) => {
+            attempts++;
+            latencyMs = attempt.latencyMs;
           }
+        );
+      } finally {
+        if (attempts > 0) tracker?.recordCall(DataProviderService.TOKEN_LIST_ENDPOINT, attempts, latencyMs);
+      }
 
-          const assetId = token.address.toLowerCase();
-          const key = `${chainIdStr}:${assetId}`;
-          if (seen.has(key)) {
-            continue;
-          }
-          seen.add(key);
-
-          const decimalsRaw = typeof token.decimals === 'number'
-            ? token.decimals
-            : Number.parseInt(String(token.decimals ?? '18'), 10);
-          const decimals = Number.isFinite(decimalsRaw) ? decimalsRaw : 18;
-
-          const asset: AssetType = {
-            chainId: chainIdStr,
-            assetId,
-            symbol: token.symbol ?? token.address,
-            decimals,
-          };
-          chainAssets.push(asset);
-          assets.push(asset);
+      const tokens = tokenList?.tokens;
+      if (!tokens) {
+        return null;
+      }
+
+      const chainAssets: AssetType[] = [];
+      const seen = new Set<string>();
+      for (const token of Object.values(tokens)) {
+        if (!token?.address) {
+          continue;
         }
 
-        this.tokenListCache.set(chainIdStr, {
-          assets: chainAssets,
-          fetchedAt: Date.now(),
+        const assetId = canonicalAssetId(chainIdStr, token.address);
+        if (seen.has(assetId)) {
+          continue;
+        }
+        seen.add(assetId);
+
+        const decimalsRaw = typeof token.decimals === 'number'
+          ? token.decimals
+          : Number.parseInt(String(token.decimals ?? '18'), 10);
+        const decimals = Number.isFinite(decimalsRaw) ? decimalsRaw : 18;
+
+        chainAssets.push({
+          chainId: chainIdStr,
+          assetId,
+          symbol: token.symbol ?? token.address,
+          decimals,
+          ...caipFieldsOf(chainIdStr, assetId),
+          ...this.wrappingFields(chainIdStr, assetId),
         });
-
-        this.logger.info('Token list fetched', { chainId: chainIdStr, tokenCount: chainAssets.length });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        this.logger.warn('Token list fetch failed', { chainId: chainIdStr, error: message });
       }
+
+      this.tokenListCache.set(chainIdStr, {
+        assets: chainAssets,
+        fetchedAt: Date.now(),
+      });
+
+      this.logger.info('Token list fetched', { chainId: chainIdStr, tokenCount: chainAssets.length });
+      return chainAssets;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn('Token list fetch failed', { chainId: chainIdStr, error: message });
+      return null;
     }
+  }
+
+  /**
+   * Map a DLN order onto the normalized order status
+   */
+  private toOrderStatus(order: DeBridgeOrder): OrderStatusType {
+    const fulfillmentLatencySeconds = order.fulfilledAt
+      ? Math.max(0, (Date.parse(order.fulfilledAt) - Date.parse(order.createdAt)) / 1000)
+      : null;
 
     return {
-      assets,
-      measuredAt,
+      orderId: order.orderId,
+      state: DataProviderService.ORDER_STATES[order.status] ?? 'unknown',
+      upstreamState: order.status,
+      give: {
+        chainId: order.giveChainId,
+        tokenAddress: order.giveTokenAddress,
+        symbol: order.giveSymbol,
+        decimals: order.giveDecimals,
+        amount: order.giveAmount,
+      },
+      take: {
+        chainId: order.takeChainId,
+        tokenAddress: order.takeTokenAddress,
+        symbol: order.takeSymbol,
+        decimals: order.takeDecimals,
+        amount: order.takeAmount,
+      },
+      sourceTxHash: order.sourceTxHash,
+      fulfillTxHash: order.fulfillTxHash,
+      createdAt: order.createdAt,
+      fulfilledAt: order.fulfilledAt,
+      fulfillmentLatencySeconds,
     };
   }
 
   /**
-   * Health check - verifies deBridge API connectivity
+   * Health check - verifies deBridge API connectivity and reports each upstream's
+   * effective request rate (below the configured rate after 429s)
    */
   ping() {
     return Effect.tryPromise({
       try: async () => {
         try {
           // Test connection to deBridge API
-          await HttpUtils.fetchWithRetry<any>(
-            `${this.dlnApiBase}/supported-chains-info`,
+          await this.http.fetchWithRetry<any>(
+            'dln',
+            `${this.dlnApiBase}${DataProviderService.CHAINS_ENDPOINT}`,
             {
-              headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}
+              headers: this.dlnHeaders(),
+              lane: 'interactive',
             },
             1, // Only 1 retry for ping
             500 // Fast retry
@@ -889,42 +1923,52 @@ export class DataProviderService {
         return {
           status: "ok" as const,
           timestamp: new Date().toISOString(),
+          upstreams: this.http.rates().map((rate) => ({
+            ...rate,
+            pausedUntil: rate.pausedUntil !== null ? new Date(rate.pausedUntil).toISOString() : null,
+          })),
         };
       },
-      catch: (error: unknown) =>
-        new Error(`Health check failed: ${error instanceof Error ? error.message : String(error)}`)
+      catch: (error: unknown) => this.toServiceError('Health check failed', error)
     });
   }
 
   /**
    * Fetch volumes from DefiLlama bridge aggregator API
    */
-  private async fetchDefiLlamaVolumes(): Promise<DefiLlamaBridgeResponse | null> {
+  private async fetchDefiLlamaVolumes(tracker?: ProvenanceTracker): Promise<DefiLlamaBridgeResponse | null> {
+    const endpoint = `/bridge/${this.DEBRIDGE_LLAMA_ID}`;
+
     // Check cache first
     if (this.volumeCache && Date.now() - this.volumeCache.fetchedAt < this.VOLUME_CACHE_TTL) {
+      tracker?.recordCacheHit(endpoint);
       return this.volumeCache.data;
     }
+    tracker?.recordCacheMiss();
 
     const sanitizedBase = this.defillamaBaseUrl.replace(/\/$/, "");
-    const url = `${sanitizedBase}/bridge/${this.DEBRIDGE_LLAMA_ID}`;
+    const url = `${sanitizedBase}${endpoint}`;
 
     try {
-      await this.rateLimiter.acquire();
-      
-      const response = await fetch(url, {
-        headers: {
-          'Accept': 'application/json',
-        },
-        signal: AbortSignal.timeout(this.timeout),
-      });
-
-      if (!response.ok) {
-        this.logger.error('DefiLlama API error', { status: response.status, url });
-        this.volumeCache = { data: null, fetchedAt: Date.now() };
-        return null;
+      let attempts = 0;
+      let latencyMs = 0;
+      let raw: unknown;
+      try {
+        raw = await this.http.fetchWithRetry<unknown>(
+          'defillama',
+          url,
+          { lane: 'background' },
+          undefined,
+          undefined,
+          (attempt) => {
+            attempts++;
+            latencyMs = attempt.latencyMs;
+          }
+        );
+      } finally {
+        if (attempts > 0) tracker?.recordCall(endpoint, attempts, latencyMs);
       }
 
-      const raw = await response.json();
       const data = this.parseDefiLlamaResponse(raw);
 
       if (!data) {
@@ -937,6 +1981,12 @@ export class DataProviderService {
       return data;
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof HttpError) {
+        // Upstream answered with an error even after retries; don't ask again until the cache expires
+        this.logger.error('DefiLlama API error', { status: error.status, url });
+        this.volumeCache = { data: null, fetchedAt: Date.now() };
+        return null;
+      }
       this.logger.error('DefiLlama request failed', { url, error: message });
       return null;
     }
@@ -987,6 +2037,377 @@ export class DataProviderService {
     };
   }
 
+  /**
+   * Itemize quote fees from the top-level fee fields and costsDetails.
+   *
+   * Amounts stay in the token they are charged in; USD values come from the
+   * quote where reported, otherwise input-token fees are valued pro rata
+   * against srcChainTokenIn.approximateUsdValue. Remaining fees (e.g. native
+   * gas) are valued with oracle prices when available, else left unpriced.
+   */
+  private extractFees(
+    quote: DeBridgeQuote,
+    source: AssetType,
+    prices: Map<string, TokenPrice> = new Map()
+  ): FeeComponentType[] {
+    const fees: FeeComponentType[] = [];
+    const srcToken = quote.estimation.srcChainTokenIn;
+    const srcChainId = String(srcToken?.chainId ?? source.chainId);
+    const srcAddress = srcToken?.address ?? source.assetId;
+    const native = nativeAssetIdOf(srcChainId);
+
+    // USD value of an amount denominated in the input token
+    const inputTokenUsd = (amount: string): number | null => {
+      const srcUsd = srcToken?.approximateUsdValue ?? srcToken?.originApproximateUsdValue;
+      if (srcUsd === undefined || srcUsd === null || !srcToken?.amount) return null;
+      try {
+        const srcAmount = new Decimal(srcToken.amount);
+        if (srcAmount.isZero()) return null;
+        return new Decimal(amount).div(srcAmount).times(srcUsd).toNumber();
+      } catch {
+        return null;
+      }
+    };
+
+    const toUsd = (value: string | number | undefined): number | null => {
+      if (value === undefined || value === null || value === '') return null;
+      const parsed = Number(value);
+      return Number.isFinite(parsed) ? parsed : null;
+    };
+
+    if (quote.protocolFee) {
+      fees.push({
+        type: 'protocol_fee',
+        chainId: srcChainId,
+        tokenAddress: srcAddress,
+        amount: quote.protocolFee,
+        amountUsd: quote.protocolFeeApproximateUsdValue ?? inputTokenUsd(quote.protocolFee),
+      });
+    }
+
+    if (quote.fixFee) {
+      fees.push({
+        type: 'fixed_fee',
+        chainId: srcChainId,
+        tokenAddress: native,
+        amount: quote.fixFee,
+        amountUsd: null,
+      });
+    }
+
+    if (quote.prependedOperatingExpenseCost) {
+      fees.push({
+        type: 'operating_expense',
+        chainId: srcChainId,
+        tokenAddress: srcAddress,
+        amount: quote.prependedOperatingExpenseCost,
+        amountUsd: inputTokenUsd(quote.prependedOperatingExpenseCost),
+      });
+    }
+
+    if (quote.estimatedTransactionFee?.total) {
+      fees.push({
+        type: 'source_gas',
+        chainId: srcChainId,
+        tokenAddress: native,
+        amount: quote.estimatedTransactionFee.total,
+        amountUsd: null,
+      });
+    }
+
+    for (const detail of quote.estimation.costsDetails ?? []) {
+      // Amount lost between tokenIn and tokenOut when no explicit feeAmount is given
+      const detailChainId = String(detail.chain ?? srcChainId);
+      const sameToken = (a?: string, b?: string) =>
+        a === undefined || b === undefined
+          ? a === b
+          : normalizeAddress(detailChainId, a) === normalizeAddress(detailChainId, b);
+      const spread = (): string | null => {
+        if (!sameToken(detail.tokenIn, detail.tokenOut)) return null;
+        try {
+          const diff = BigInt(detail.amountIn) - BigInt(detail.amountOut);
+          return diff >= 0n ? diff.toString() : null;
+        } catch {
+          return null;
+        }
+      };
+
+      switch (detail.type) {
+        case 'TakerMargin': {
+          const amount = detail.payload?.feeAmount ?? spread();
+          fees.push({
+            type: 'taker_margin',
+            chainId: String(detail.chain ?? srcChainId),
+            tokenAddress: detail.tokenIn ?? srcAddress,
+            amount,
+            amountUsd: toUsd(detail.payload?.feeApproximateUsdValue) ??
+              (amount && sameToken(detail.tokenIn, srcAddress) ? inputTokenUsd(amount) : null),
+          });
+          break;
+        }
+        case 'EstimatedOperatingExpenses':
+          // Already itemized from prependedOperatingExpenseCost
+          if (quote.prependedOperatingExpenseCost) break;
+          fees.push({
+            type: 'operating_expense',
+            chainId: String(detail.chain ?? srcChainId),
+            tokenAddress: detail.tokenIn ?? srcAddress,
+            amount: detail.payload?.feeAmount ?? spread(),
+            amountUsd: toUsd(detail.payload?.feeApproximateUsdValue),
+          });
+          break;
+        case 'PreSwap': {
+          // Swap leg: input and output tokens differ, so value it by the USD drop across the leg
+          const preSwapOut = quote.estimation.srcChainTokenOut;
+          const inUsd = srcToken?.approximateUsdValue;
+          const outUsd = preSwapOut?.approximateUsdValue;
+          fees.push({
+            type: 'pre_swap',
+            chainId: String(detail.chain ?? srcChainId),
+            tokenAddress: detail.tokenIn ?? srcAddress,
+            amount: detail.payload?.feeAmount ?? null,
+            amountUsd: toUsd(detail.payload?.feeApproximateUsdValue) ??
+              (inUsd !== undefined && outUsd !== undefined ? Math.max(inUsd - outUsd, 0) : null),
+          });
+          break;
+        }
+      }
+    }
+
+    // Value the rest (e.g. native gas fees) with oracle prices
+    for (const fee of fees) {
+      if (fee.amountUsd !== null || fee.amount === null) continue;
+      const key = priceKey({ chainId: fee.chainId, address: fee.tokenAddress });
+      const price = prices.get(key);
+      const isSourceToken = key === priceKey({ chainId: source.chainId, address: source.assetId });
+      const decimals = price?.decimals ?? (isSourceToken ? source.decimals : null);
+      if (!price || decimals === null) continue;
+      try {
+        fee.amountUsd = DecimalUtils.normalizeAmount(fee.amount, decimals).times(price.priceUsd).toNumber();
+      } catch {
+        // Leave unpriced
+      }
+    }
+
+    return fees;
+  }
+
+  /**
+   * Execution details: settlement delay, optional source-side swap leg and refund bound
+   */
+  private extractExecution(quote: DeBridgeQuote): RateExecutionType {
+    const preSwap = quote.estimation.srcChainTokenOut;
+    const delay = quote.order?.approximateFulfillmentDelay;
+    const slippage = quote.estimation.recommendedSlippage;
+
+    return {
+      estimatedSettlementSeconds: typeof delay === 'number' && Number.isFinite(delay) ? delay : null,
+      hasSourceSwap: Boolean(preSwap),
+      intermediateToken: preSwap
+        ? {
+            chainId: String(preSwap.chainId),
+            address: preSwap.address,
+            symbol: preSwap.symbol,
+            decimals: preSwap.decimals,
+            amount: preSwap.amount,
+          }
+        : null,
+      maxRefundAmount: preSwap?.maxRefundAmount ?? null,
+      recommendedSlippage: typeof slippage === 'number' && Number.isFinite(slippage) ? slippage : null,
+    };
+  }
+
+  /**
+   * Failure reported by a service method. Validation and upstream errors pass through
+   * unchanged so the router can map them; anything else is wrapped with context.
+   */
+  private toServiceError(context: string, error: unknown): Error {
+    if (error instanceof ValidationError || isUpstreamError(error)) return error;
+    return new Error(`${context}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  /**
+   * Build a snapshot error entry for a failed route (and optional notional)
+   */
+  private toSnapshotError(
+    stage: SnapshotErrorType["stage"],
+    route: { source: AssetType; destination: AssetType },
+    error: unknown,
+    notional?: string
+  ): SnapshotErrorType {
+    const { category, status, message } = classifyError(error);
+    return {
+      stage,
+      route: { source: route.source, destination: route.destination },
+      ...(notional !== undefined && { notional }),
+      category,
+      upstreamStatus: status,
+      message,
+      occurredAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Resolve a caller route asset (chainId/assetId or CAIP ids) into a canonical asset
+   * so quote requests, cache keys and price lookups agree regardless of how the
+   * caller identified or cased it. Returns null, with the problems added to issues,
+   * if the asset cannot be mapped or its ids name different assets.
+   */
+  private normalizeAsset(asset: AssetInputType, field: string, issues: ValidationIssue[]): AssetType | null {
+    const fromCaip = asset.caip19 ? fromCaip19(asset.caip19) : null;
+    const caip2ChainId = asset.caip2 ? fromCaip2(asset.caip2) : null;
+    const chainId = asset.chainId ?? fromCaip?.chainId ?? caip2ChainId;
+    const rawAssetId = asset.assetId ?? fromCaip?.assetId;
+    if (!chainId || !rawAssetId) {
+      issues.push({ field, code: 'unmappable_asset', message: 'Needs chainId and assetId, or a supported CAIP-19 id' });
+      return null;
+    }
+
+    // Native coin aliases collapse to deBridge's form; wrapped tokens are quoted as themselves
+    const assetId = canonicalAssetId(String(chainId), rawAssetId);
+
+    // Every id the caller sent must name this asset, rather than one of them silently winning
+    const conflicts: ValidationIssue[] = [];
+    if (asset.caip2 && caip2ChainId !== chainId) {
+      conflicts.push({
+        field: `${field}.caip2`,
+        code: caip2ChainId ? 'conflicting_ids' : 'unmappable_asset',
+        message: caip2ChainId ? `${asset.caip2} is not chain ${chainId}` : `${asset.caip2} is not a supported CAIP-2 id`,
+      });
+    }
+    if (asset.caip19 && (fromCaip?.chainId !== chainId || fromCaip.assetId !== assetId)) {
+      conflicts.push({
+        field: `${field}.caip19`,
+        code: fromCaip ? 'conflicting_ids' : 'unmappable_asset',
+        message: fromCaip ? `${asset.caip19} is not ${assetId} on chain ${chainId}` : `${asset.caip19} is not a supported CAIP-19 id`,
+      });
+    }
+    if (conflicts.length > 0) {
+      issues.push(...conflicts);
+      return null;
+    }
+
+    return {
+      chainId: String(chainId),
+      assetId,
+      symbol: asset.symbol,
+      decimals: asset.decimals,
+      ...caipFieldsOf(String(chainId), assetId),
+      ...this.wrappingFields(String(chainId), assetId),
+    };
+  }
+
+  /**
+   * Validation stage for snapshot requests.
+   *
+   * Collects every problem (with a field path) instead of stopping at the first,
+   * and returns the normalized routes when there are none. Structural problems are
+   * reported without any upstream calls; chain and decimals checks run only on
+   * well-formed requests and are skipped when the registry or token list is unavailable.
+   */
+  private async validateSnapshotParams(
+    params: SnapshotParams,
+    tracker?: ProvenanceTracker
+  ): Promise<Array<{ source: AssetType; destination: AssetType }>> {
+    const issues: ValidationIssue[] = [];
+
+    if (!params?.routes?.length) {
+      issues.push({ field: 'routes', code: 'required', message: 'At least one route is required' });
+    }
+    if (!params?.notionals?.length && !params?.notionalsUsd?.length) {
+      issues.push({ field: 'notionals', code: 'required', message: 'Provide notionals or notionalsUsd' });
+    }
+    (params?.notionals ?? []).forEach((notional, index) => {
+      if (!/^\d+$/.test(String(notional)) || BigInt(notional) === 0n) {
+        issues.push({
+          field: `notionals[${index}]`,
+          code: 'invalid_amount',
+          message: 'Must be a positive integer in smallest units',
+        });
+      }
+    });
+    (params?.notionalsUsd ?? []).forEach((amount, index) => {
+      if (!Number.isFinite(amount) || amount <= 0) {
+        issues.push({ field: `notionalsUsd[${index}]`, code: 'invalid_amount', message: 'Must be a positive number' });
+      }
+    });
+
+    const routes: Array<{ source: AssetType; destination: AssetType }> = [];
+    const routeIndexes: number[] = [];
+    const seen = new Map<string, number>();
+
+    for (const [index, route] of (params?.routes ?? []).entries()) {
+      const sides = { source: route.source, destination: route.destination };
+      const normalized: Partial<Record<keyof typeof sides, AssetType>> = {};
+
+      for (const [side, input] of Object.entries(sides) as Array<[keyof typeof sides, AssetInputType]>) {
+        const asset = this.normalizeAsset(input, `routes[${index}].${side}`, issues);
+        if (asset) normalized[side] = asset;
+      }
+
+      const { source, destination } = normalized;
+      if (!source || !destination) continue;
+
+      if (source.chainId === destination.chainId && source.assetId === destination.assetId) {
+        issues.push({ field: `routes[${index}]`, code: 'same_asset', message: 'Source and destination are the same asset' });
+      }
+      const key = `${source.chainId}:${source.assetId}->${destination.chainId}:${destination.assetId}`;
+      const first = seen.get(key);
+      if (first !== undefined) {
+        issues.push({ field: `routes[${index}]`, code: 'duplicate_route', message: `Duplicate of routes[${first}]` });
+      } else {
+        seen.set(key, index);
+      }
+      routes.push({ source, destination });
+      routeIndexes.push(index);
+    }
+
+    // Malformed requests are rejected before touching the chain registry or token lists
+    if (issues.length > 0) {
+      this.logger.warn('Snapshot request rejected', { issueCount: issues.length });
+      throw new ValidationError(issues);
+    }
+
+    const supportedChains = await this.fetchChains(tracker).then(
+      (chains) => new Set(chains.map((chain) => chain.debridgeChainId)),
+      () => null
+    );
+
+    for (const [position, route] of routes.entries()) {
+      for (const side of ['source', 'destination'] as const) {
+        const field = `routes[${routeIndexes[position]}].${side}`;
+        const asset = route[side];
+
+        if (supportedChains && !supportedChains.has(asset.chainId)) {
+          issues.push({ field: `${field}.chainId`, code: 'unsupported_chain', message: `Chain ${asset.chainId} is not supported by deBridge` });
+          continue;
+        }
+        const listed = (await this.getChainAssets(asset.chainId, tracker))?.find((token) => token.assetId === asset.assetId);
+        if (listed && listed.decimals !== asset.decimals) {
+          issues.push({
+            field: `${field}.decimals`,
+            code: 'decimals_mismatch',
+            message: `Token list reports ${listed.decimals} decimals for ${listed.symbol}, got ${asset.decimals}`,
+          });
+        }
+      }
+    }
+
+    if (issues.length > 0) {
+      this.logger.warn('Snapshot request rejected', { issueCount: issues.length });
+      throw new ValidationError(issues);
+    }
+    return routes;
+  }
+
+  /**
+   * Native/wrapped identity fields for an Asset record
+   */
+  private wrappingFields(chainId: string, assetId: string): Pick<AssetType, 'wrapping'> {
+    const wrapping = nativeWrappingOf(chainId, assetId);
+    return wrapping ? { wrapping } : {};
+  }
+
   /**
    * Sanitizes and validates HTTP URLs
    * @param url - URL to sanitize
@@ -1027,22 +2448,25 @@ export class DataProviderService {
    * implementation offers, demonstrating deep understanding of DEX mechanics.
    * 
    * @param routes - Routes to analyze
+   * @param hooks - Optional callbacks for each analyzed route and each failed probe
    * @returns RouteIntelligence[] with comprehensive metrics
    */
   private async getRouteIntelligence(
-    routes: Array<{ source: AssetType; destination: AssetType }>
+    routes: Array<{ source: AssetType; destination: AssetType }>,
+    hooks: FetchHooks<RouteIntelligenceType> = {}
   ): Promise<RouteIntelligenceType[]> {
-    const intelligence: RouteIntelligenceType[] = [];
     const now = new Date().toISOString();
+    const prices = await this.getUsdPrices(routes, hooks.tracker);
 
-    for (const route of routes) {
+    // Routes are analyzed side by side; sizes within a route are probed in order up to the first failure
+    return mapWithConcurrency(routes, this.maxConcurrency, async (route) => {
       try {
         // Probe at strategic sizes: $1k, $5k, $10k, $50k, $100k, $500k, $1M, $5M
         const probeSizesUsd = [1000, 5000, 10000, 50000, 100000, 500000, 1000000, 5000000];
         const sourceDecimals = route.source.decimals;
-        
-        // Assuming source is a stablecoin (USDC/USDT) for simplicity
-        // In production, would fetch real USD price
+
+        // USD sizes are converted with the source asset's USD price
+        const { priceUsd: sourcePriceUsd } = await this.resolvePriceUsd(route, 'source', prices, 'background', hooks.tracker);
         const quotes: Array<{
           amountUsd: number;
           effectiveRate: number;
@@ -1050,37 +2474,36 @@ export class DataProviderService {
         }> = [];
 
         for (const sizeUsd of probeSizesUsd) {
-          // Convert USD to source token amount (assuming 1:1 for stablecoins)
-          const amountIn = String(Math.floor(sizeUsd * Math.pow(10, sourceDecimals)));
+          if (hooks.signal?.aborted) break;
+          const amountIn = DecimalUtils.denormalizeAmount(
+            new Decimal(sizeUsd).div(sourcePriceUsd).toString(),
+            sourceDecimals
+          );
           
           try {
-            const quote = await this.fetchQuoteWithRetry(
+            const { quote } = await this.fetchQuote(
               route.source,
               route.destination,
-              amountIn
+              amountIn,
+              'exact_in',
+              'background',
+              hooks.tracker
             );
 
-            if (quote && quote.estimation) {
-              const effectiveRate = 
-                Number(quote.estimation.dstChainTokenOut.amount) / 
-                Number(quote.estimation.srcChainTokenIn.amount);
-              
-              quotes.push({
-                amountUsd: sizeUsd,
-                effectiveRate,
-                failed: false,
-              });
-            } else {
-              quotes.push({ amountUsd: sizeUsd, effectiveRate: 0, failed: true });
-              break; // Stop probing at first failure
-            }
-          } catch {
+            const effectiveRate = 
+              Number(quote.estimation.dstChainTokenOut.amount) / 
+              Number(quote.estimation.srcChainTokenIn.amount);
+            
+            quotes.push({
+              amountUsd: sizeUsd,
+              effectiveRate,
+              failed: false,
+            });
+          } catch (error) {
             quotes.push({ amountUsd: sizeUsd, effectiveRate: 0, failed: true });
-            break;
+            hooks.onError?.(this.toSnapshotError('intelligence', route, error, amountIn));
+            break; // Stop probing at first failure
           }
-
-          // Rate limit between probes
-          await new Promise(resolve => setTimeout(resolve, 200));
         }
 
         // Analyze results
@@ -1131,37 +2554,40 @@ export class DataProviderService {
             : null,
         };
 
-        intelligence.push({
+        const analysis: RouteIntelligenceType = {
           route,
           maxCapacityUsd,
           optimalRangeUsd,
           feeEfficiencyScore,
           priceImpactBps,
           measuredAt: now,
-        });
+        };
+        hooks.onItem?.(analysis);
 
         this.logger.info('Route intelligence analyzed', {
           route: `${route.source.symbol}->${route.destination.symbol}`,
           maxCapacityUsd,
           feeEfficiencyScore,
         });
+        return analysis;
       } catch (error) {
         this.logger.warn('Route intelligence analysis failed', {
           route: `${route.source.symbol}->${route.destination.symbol}`,
           error: error instanceof Error ? error.message : String(error),
         });
         // Return minimal intelligence on error
-        intelligence.push({
+        const fallback: RouteIntelligenceType = {
           route,
           maxCapacityUsd: null,
           optimalRangeUsd: null,
           feeEfficiencyScore: null,
           priceImpactBps: { at1k: null, at10k: null, at100k: null },
           measuredAt: now,
-        });
+        };
+        hooks.onItem?.(fallback);
+        hooks.onError?.(this.toSnapshotError('intelligence', route, error));
+        return fallback;
       }
-    }
-
-    return intelligence;
+    }, hooks.signal);
   }
 }
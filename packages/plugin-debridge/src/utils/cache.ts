@@ -1,9 +1,11 @@
+import { CircuitOpenError } from './errors';
+
 /**
  * TTL (Time-To-Live) Cache implementation
  * Reduces API load by caching frequently accessed data
  */
 export class TTLCache<K, V> {
-  private cache = new Map<K, { value: V; expiresAt: number }>();
+  private cache = new Map<K, { value: V; storedAt: number; expiresAt: number }>();
   private readonly ttlMs: number;
   private readonly maxSize: number;
 
@@ -16,6 +18,13 @@ export class TTLCache<K, V> {
    * Get cached value if not expired
    */
   get(key: K): V | undefined {
+    return this.getWithAge(key)?.value;
+  }
+
+  /**
+   * Get cached value together with how long ago it was stored
+   */
+  getWithAge(key: K): { value: V; ageMs: number } | undefined {
     const entry = this.cache.get(key);
     if (!entry) return undefined;
 
@@ -25,7 +34,7 @@ export class TTLCache<K, V> {
       return undefined;
     }
 
-    return entry.value;
+    return { value: entry.value, ageMs: now - entry.storedAt };
   }
 
   /**
@@ -41,9 +50,11 @@ export class TTLCache<K, V> {
       }
     }
 
+    const now = Date.now();
     this.cache.set(key, {
       value,
-      expiresAt: Date.now() + this.ttlMs,
+      storedAt: now,
+      expiresAt: now + this.ttlMs,
     });
   }
 
@@ -133,7 +144,9 @@ export class CircuitBreaker {
   constructor(
     private readonly failureThreshold: number,
     private readonly cooldownMs: number,
-    private readonly successThreshold = 2
+    private readonly successThreshold = 2,
+    // Errors that still prove the service is answering (e.g. a 4xx for a bad request) need not count
+    private readonly isFailure: (error: unknown) => boolean = () => true
   ) {}
 
   /**
@@ -145,7 +158,7 @@ export class CircuitBreaker {
     // If circuit is OPEN and cooldown hasn't expired, fail fast
     if (this.state === 'OPEN') {
       if (now < this.nextAttemptTime) {
-        throw new Error('Circuit breaker is OPEN - service is unavailable');
+        throw new CircuitOpenError(undefined, this.nextAttemptTime - now);
       }
       // Cooldown expired, try HALF_OPEN
       this.state = 'HALF_OPEN';
@@ -157,7 +170,11 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      if (this.isFailure(error)) {
+        this.onFailure();
+      } else {
+        this.onSuccess();
+      }
       throw error;
     }
   }
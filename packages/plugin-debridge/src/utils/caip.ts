@@ -0,0 +1,105 @@
+import { canonicalAssetId, chainFamilyOf, isNativeAsset, nativeAssetIdOf, SOLANA_CHAIN_ID } from './chains';
+
+/**
+ * CAIP-2 / CAIP-19 mapping for deBridge chain ids and asset ids
+ * Lets pipelines join assets across providers without per-provider lookup tables
+ */
+
+const SOLANA_CAIP2 = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp'; // mainnet genesis hash prefix
+
+// deBridge ids for chains whose EIP-155 id collides with or is unavailable in deBridge's numbering
+const EIP155_BY_DEBRIDGE_ID: Record<string, string> = {
+  '100000001': '245022934', // Neon
+  '100000002': '100', // Gnosis
+  '100000003': '1890', // Lightlink
+  '100000004': '1088', // Metis
+};
+const DEBRIDGE_ID_BY_EIP155 = Object.fromEntries(
+  Object.entries(EIP155_BY_DEBRIDGE_ID).map(([debridgeId, eip155]) => [eip155, debridgeId])
+);
+
+// SLIP-44 coin types of native gas tokens, keyed by deBridge chain id
+const NATIVE_SLIP44: Record<string, number> = {
+  '1': 60,
+  '10': 60,
+  '56': 714,
+  '137': 966,
+  '8453': 60,
+  '42161': 60,
+  '43114': 9000,
+  '59144': 60,
+  [SOLANA_CHAIN_ID]: 501,
+};
+
+/**
+ * CAIP-2 chain id of a deBridge chain id, null when it cannot be mapped
+ */
+export function toCaip2(chainId: string): string | null {
+  if (chainId === SOLANA_CHAIN_ID) return SOLANA_CAIP2;
+  if (EIP155_BY_DEBRIDGE_ID[chainId]) return `eip155:${EIP155_BY_DEBRIDGE_ID[chainId]}`;
+  // deBridge reuses EIP-155 ids except for its internal 1000000xx range
+  if (/^\d+$/.test(chainId) && Number(chainId) < 100_000_000) return `eip155:${chainId}`;
+  return null;
+}
+
+/**
+ * deBridge chain id of a CAIP-2 chain id, null when unsupported
+ */
+export function fromCaip2(caip2: string): string | null {
+  if (caip2 === SOLANA_CAIP2) return SOLANA_CHAIN_ID;
+  const match = /^eip155:(\d+)$/.exec(caip2);
+  if (!match) return null;
+  const chainId = DEBRIDGE_ID_BY_EIP155[match[1]] ?? match[1];
+  // deBridge's own ids (e.g. 7565164 for Solana) are not EIP-155 chains
+  return toCaip2(chainId) === caip2 ? chainId : null;
+}
+
+/**
+ * CAIP-19 asset id of a deBridge asset, null when the chain or native coin cannot be mapped
+ */
+export function toCaip19(chainId: string, assetId: string): string | null {
+  const caip2 = toCaip2(chainId);
+  if (!caip2) return null;
+
+  const address = canonicalAssetId(chainId, assetId);
+  if (isNativeAsset(chainId, address)) {
+    const slip44 = NATIVE_SLIP44[chainId];
+    return slip44 === undefined ? null : `${caip2}/slip44:${slip44}`;
+  }
+
+  const namespace = chainFamilyOf(chainId) === 'solana' ? 'token' : 'erc20';
+  return `${caip2}/${namespace}:${address}`;
+}
+
+/**
+ * deBridge chain id and asset id of a CAIP-19 asset id, null when unsupported
+ */
+export function fromCaip19(caip19: string): { chainId: string; assetId: string } | null {
+  const match = /^([-a-z0-9]{3,8}:[-_a-zA-Z0-9]{1,32})\/([-a-z0-9]{3,8}):([-.%a-zA-Z0-9]{1,128})$/.exec(caip19);
+  if (!match) return null;
+  const [, caip2, namespace, reference] = match;
+
+  const chainId = fromCaip2(caip2);
+  if (!chainId) return null;
+
+  if (namespace === 'slip44') {
+    if (NATIVE_SLIP44[chainId] !== Number(reference)) return null;
+    return { chainId, assetId: nativeAssetIdOf(chainId) };
+  }
+
+  const expected = chainFamilyOf(chainId) === 'solana' ? 'token' : 'erc20';
+  if (namespace !== expected) return null;
+  return { chainId, assetId: canonicalAssetId(chainId, reference) };
+}
+
+/**
+ * CAIP fields for an Asset record; omitted when the chain or asset cannot be mapped
+ */
+export function caipFieldsOf(chainId: string, assetId: string): { caip2?: string; caip19?: string } {
+  const caip2 = toCaip2(chainId);
+  const caip19 = toCaip19(chainId, assetId);
+  return {
+    ...(caip2 && { caip2 }),
+    ...(caip19 && { caip19 }),
+  };
+}
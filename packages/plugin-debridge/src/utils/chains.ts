@@ -0,0 +1,109 @@
+/**
+ * Chain metadata not reported by /supported-chains-info
+ * deBridge identifies chains by its own ids; for most EVM chains they equal the EIP-155 id
+ */
+
+export type ChainFamily = 'evm' | 'solana';
+
+export const SOLANA_CHAIN_ID = '7565164';
+
+// deBridge's native coin conventions per family
+export const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
+export const SOLANA_NATIVE_MINT = '11111111111111111111111111111111';
+// Common EVM alias for the native coin, accepted on input
+const EVM_NATIVE_ALIAS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+export interface NativeCurrency {
+  symbol: string;
+  decimals: number;
+}
+
+// deBridge chain id -> native gas token
+const NATIVE_CURRENCIES: Record<string, NativeCurrency> = {
+  '1': { symbol: 'ETH', decimals: 18 },
+  '10': { symbol: 'ETH', decimals: 18 },
+  '56': { symbol: 'BNB', decimals: 18 },
+  '137': { symbol: 'POL', decimals: 18 },
+  '8453': { symbol: 'ETH', decimals: 18 },
+  '42161': { symbol: 'ETH', decimals: 18 },
+  '43114': { symbol: 'AVAX', decimals: 18 },
+  '59144': { symbol: 'ETH', decimals: 18 },
+  [SOLANA_CHAIN_ID]: { symbol: 'SOL', decimals: 9 },
+};
+
+// deBridge chain id -> wrapped native token
+const WRAPPED_NATIVE: Record<string, string> = {
+  '1': '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2', // WETH
+  '10': '0x4200000000000000000000000000000000000006', // WETH
+  '56': '0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c', // WBNB
+  '137': '0x0d500b1d8e8ef31e21c99d1db9a6444d3adf1270', // WPOL
+  '8453': '0x4200000000000000000000000000000000000006', // WETH
+  '42161': '0x82af49447d8a07e3bd95bd0d56f35241523fbab1', // WETH
+  '43114': '0xb31f66aa3c1e785363f0875a1b74e27b85fd66c7', // WAVAX
+  '59144': '0xe5d7c2a44ffddf6b295a15c148167daaaf5cf34f', // WETH
+  [SOLANA_CHAIN_ID]: 'So11111111111111111111111111111111111111112', // wSOL
+};
+
+/**
+ * Address family of a deBridge chain id
+ */
+export function chainFamilyOf(chainId: string): ChainFamily {
+  return chainId === SOLANA_CHAIN_ID ? 'solana' : 'evm';
+}
+
+/**
+ * Canonical form of a token address for keys and comparisons.
+ * EVM hex addresses are case-insensitive and lowercased; anything else
+ * (Solana base58 mints, non-hex ids) is case-sensitive and kept as-is.
+ */
+export function normalizeAddress(chainId: string, address: string): string {
+  const trimmed = address.trim();
+  if (chainFamilyOf(chainId) === 'evm' && /^0x[0-9a-fA-F]+$/.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+  return trimmed;
+}
+
+/**
+ * Normalized address with native coin aliases (0xEeee…) mapped to deBridge's native form
+ */
+export function canonicalAssetId(chainId: string, address: string): string {
+  const normalized = normalizeAddress(chainId, address);
+  return normalized === EVM_NATIVE_ALIAS && chainFamilyOf(chainId) === 'evm' ? NATIVE_TOKEN_ADDRESS : normalized;
+}
+
+/**
+ * deBridge's asset id for the native coin of a chain
+ */
+export function nativeAssetIdOf(chainId: string): string {
+  return chainFamilyOf(chainId) === 'solana' ? SOLANA_NATIVE_MINT : NATIVE_TOKEN_ADDRESS;
+}
+
+/**
+ * Whether an asset id denotes the chain's native coin (in any accepted form)
+ */
+export function isNativeAsset(chainId: string, address: string): boolean {
+  return canonicalAssetId(chainId, address) === nativeAssetIdOf(chainId);
+}
+
+/**
+ * Native and wrapped identities of an asset that is either the native coin or its
+ * wrapped token; null for any other asset or when the wrapped token is not known
+ */
+export function nativeWrappingOf(
+  chainId: string,
+  address: string
+): { nativeAssetId: string; wrappedAssetId: string } | null {
+  const wrappedAssetId = WRAPPED_NATIVE[chainId];
+  if (!wrappedAssetId) return null;
+  const assetId = canonicalAssetId(chainId, address);
+  if (assetId !== nativeAssetIdOf(chainId) && assetId !== wrappedAssetId) return null;
+  return { nativeAssetId: nativeAssetIdOf(chainId), wrappedAssetId };
+}
+
+/**
+ * Native gas token of a deBridge chain id, null when not known
+ */
+export function nativeCurrencyOf(chainId: string): NativeCurrency | null {
+  return NATIVE_CURRENCIES[chainId] ?? null;
+}
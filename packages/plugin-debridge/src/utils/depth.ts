@@ -0,0 +1,137 @@
+import Decimal from 'decimal.js';
+
+export type DepthConfidence = 'high' | 'medium' | 'low';
+
+export interface DepthThresholdResult {
+  slippageBps: number;
+  maxAmountIn: bigint; // largest probed input within the threshold
+  upperBoundAmountIn: bigint | null; // smallest probed input beyond it, null if never found
+  confidence: DepthConfidence;
+}
+
+export interface DepthSearchOptions {
+  baselineAmount: bigint;
+  baselineRate: number; // effective rate measured at baselineAmount
+  thresholdsBps: number[];
+  /**
+   * Quote an input amount and return its effective rate.
+   * Return null when the route cannot fill the amount (counts as beyond the threshold);
+   * throw for inconclusive failures (timeouts, 5xx) to stop probing.
+   */
+  probe: (amountIn: bigint) => Promise<number | null>;
+  maxProbes: number; // probes beyond the baseline
+  maxMultiplier?: bigint; // upper search bound as a multiple of the baseline
+  growthFactor?: bigint; // bracket expansion step
+  tolerance?: number; // stop bisecting once upper/lower <= 1 + tolerance
+}
+
+export interface DepthSearchResult {
+  thresholds: DepthThresholdResult[];
+  probeCount: number; // probes issued beyond the baseline
+}
+
+/**
+ * Liquidity depth search by quote bisection.
+ *
+ * Starting from a baseline effective rate measured at a small size, for each
+ * slippage threshold brackets the input size where the rate falls N bps below it
+ * (geometric expansion) and narrows the bracket (geometric bisection) until
+ * it converges or the shared probe budget runs out. Probe results are memoized,
+ * so thresholds searched later reuse earlier measurements.
+ */
+export async function searchLiquidityDepth(options: DepthSearchOptions): Promise<DepthSearchResult> {
+  const {
+    baselineAmount,
+    baselineRate,
+    probe,
+    maxProbes,
+    maxMultiplier = 100_000n,
+    growthFactor = 10n,
+    tolerance = 0.1,
+  } = options;
+
+  const measured = new Map<bigint, number | null>();
+  let probeCount = 0;
+  let inconclusive = false;
+
+  const measure = async (amount: bigint): Promise<number | null | undefined> => {
+    if (measured.has(amount)) return measured.get(amount);
+    if (inconclusive || probeCount >= maxProbes) return undefined;
+    probeCount++;
+    try {
+      const rate = await probe(amount);
+      measured.set(amount, rate);
+      return rate;
+    } catch {
+      inconclusive = true;
+      return undefined;
+    }
+  };
+
+  if (!Number.isFinite(baselineRate) || baselineRate <= 0) {
+    throw new Error('Baseline rate must be a positive number');
+  }
+  measured.set(baselineAmount, baselineRate);
+
+  const maxAmount = baselineAmount * maxMultiplier;
+  const thresholds: DepthThresholdResult[] = [];
+  let lo = baselineAmount;
+
+  for (const slippageBps of [...options.thresholdsBps].sort((a, b) => a - b)) {
+    const floorRate = baselineRate * (1 - slippageBps / 10_000);
+    const within = (rate: number | null | undefined) => rate !== null && rate !== undefined && rate >= floorRate;
+
+    // Restart from the largest amount already known to be within this threshold
+    for (const [amount, rate] of measured) {
+      if (amount > lo && within(rate)) lo = amount;
+    }
+    let hi: bigint | null = null;
+    for (const [amount, rate] of measured) {
+      if (amount > lo && !within(rate) && rate !== undefined && (hi === null || amount < hi)) hi = amount;
+    }
+
+    // Expand until the bracket's upper end breaches the threshold
+    let budgetExhausted = false;
+    while (hi === null && lo < maxAmount) {
+      const next = lo * growthFactor > maxAmount ? maxAmount : lo * growthFactor;
+      const rate = await measure(next);
+      if (rate === undefined) {
+        budgetExhausted = true;
+        break;
+      }
+      if (within(rate)) lo = next;
+      else hi = next;
+    }
+
+    // Narrow the bracket geometrically
+    while (hi !== null && !converged(lo, hi, tolerance)) {
+      const mid = geometricMid(lo, hi);
+      if (mid <= lo || mid >= hi) break;
+      const rate = await measure(mid);
+      if (rate === undefined) {
+        budgetExhausted = true;
+        break;
+      }
+      if (within(rate)) lo = mid;
+      else hi = mid;
+    }
+
+    let confidence: DepthConfidence;
+    if (hi !== null && converged(lo, hi, tolerance)) confidence = 'high';
+    else if (hi !== null || (!budgetExhausted && lo >= maxAmount)) confidence = 'medium';
+    else confidence = 'low';
+
+    thresholds.push({ slippageBps, maxAmountIn: lo, upperBoundAmountIn: hi, confidence });
+  }
+
+  return { thresholds, probeCount };
+}
+
+function converged(lo: bigint, hi: bigint, tolerance: number): boolean {
+  return new Decimal(hi.toString()).lte(new Decimal(lo.toString()).times(1 + tolerance));
+}
+
+function geometricMid(lo: bigint, hi: bigint): bigint {
+  const mid = new Decimal(lo.toString()).times(hi.toString()).sqrt().floor();
+  return BigInt(mid.toFixed(0));
+}
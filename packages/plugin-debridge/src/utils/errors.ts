@@ -0,0 +1,227 @@
+/**
+ * Error types and classification for upstream failures
+ * Lets the service report *why* an item is missing instead of silently dropping it
+ */
+
+export type ErrorCategory =
+  | 'timeout'
+  | 'rate_limited'
+  | 'unauthorized'
+  | 'no_route'
+  | 'upstream_4xx'
+  | 'upstream_5xx'
+  | 'circuit_open'
+  | 'invalid_decimals'
+  | 'parse_failure'
+  | 'network'
+  | 'unknown';
+
+/**
+ * Non-2xx response from an upstream API
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly url: string,
+    message: string = `HTTP ${status}`
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * 429 from an upstream API; retryAfterMs comes from the Retry-After header when sent
+ */
+export class RateLimitedError extends HttpError {
+  constructor(url: string, readonly retryAfterMs: number | null = null, message = 'HTTP 429: Too Many Requests') {
+    super(429, url, message);
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * 401 from an upstream API - the API key is missing or invalid
+ */
+export class UnauthorizedError extends HttpError {
+  constructor(status: number, url: string, message: string = `HTTP ${status}`) {
+    super(status, url, message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * 403 from an upstream API - the API key is valid but lacks access to the resource
+ */
+export class ForbiddenError extends HttpError {
+  constructor(url: string, message = 'HTTP 403: Forbidden') {
+    super(403, url, message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * 5xx from an upstream API
+ */
+export class UpstreamUnavailableError extends HttpError {
+  constructor(status: number, url: string, message: string = `HTTP ${status}`) {
+    super(status, url, message);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+/**
+ * Quote API rejected the route or amount (unsupported pair, size out of range)
+ */
+export class NoRouteError extends HttpError {
+  constructor(status: number, url: string, message: string = `HTTP ${status}`) {
+    super(status, url, message);
+    this.name = 'NoRouteError';
+  }
+}
+
+/**
+ * Call rejected because the circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    message = 'Circuit breaker is OPEN - service is unavailable',
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Upstream did not answer within the request timeout
+ */
+export class TimeoutError extends Error {
+  constructor(message = 'Upstream request timed out') {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Upstream payload is missing required fields or is not valid JSON (invalid response)
+ */
+export class ParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ParseError';
+  }
+}
+
+/**
+ * Asset decimals cannot be used for amount conversion
+ */
+export class DecimalsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecimalsError';
+  }
+}
+
+export interface ValidationIssue {
+  field: string; // path into the request, e.g. "routes[0].source.decimals"
+  message: string;
+  code: string; // machine-readable reason, e.g. "unsupported_chain"
+}
+
+/**
+ * Request rejected before any quoting - reported to callers as BAD_REQUEST
+ */
+export class ValidationError extends Error {
+  constructor(readonly issues: ValidationIssue[]) {
+    super(`Invalid request: ${issues.map((issue) => `${issue.field}: ${issue.message}`).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Retry-After header (delay in seconds or an HTTP date) in milliseconds, null when absent or unparseable
+ */
+export function parseRetryAfter(header: string | null | undefined, now = Date.now()): number | null {
+  if (!header) return null;
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Typed error for a non-2xx upstream response
+ */
+export function createHttpError(
+  status: number,
+  url: string,
+  message: string = `HTTP ${status}`,
+  retryAfterMs: number | null = null
+): HttpError {
+  if (status === 429) return new RateLimitedError(url, retryAfterMs, message);
+  if (status === 401) return new UnauthorizedError(status, url, message);
+  if (status === 403) return new ForbiddenError(url, message);
+  if (status >= 500) return new UpstreamUnavailableError(status, url, message);
+  return new HttpError(status, url, message);
+}
+
+/**
+ * Whether an error belongs to the upstream taxonomy (and should reach callers unwrapped)
+ */
+export function isUpstreamError(error: unknown): error is Error {
+  return (
+    error instanceof HttpError ||
+    error instanceof CircuitOpenError ||
+    error instanceof TimeoutError ||
+    error instanceof ParseError
+  );
+}
+
+/**
+ * Map any thrown value onto an error category and upstream status
+ */
+export function classifyError(error: unknown): {
+  category: ErrorCategory;
+  status: number | null;
+  message: string;
+} {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof RateLimitedError) {
+    return { category: 'rate_limited', status: error.status, message };
+  }
+  // Both are credential problems; the status tells them apart
+  if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
+    return { category: 'unauthorized', status: error.status, message };
+  }
+  if (error instanceof NoRouteError) {
+    return { category: 'no_route', status: error.status, message };
+  }
+  if (error instanceof HttpError) {
+    return {
+      category: error.status >= 500 ? 'upstream_5xx' : 'upstream_4xx',
+      status: error.status,
+      message,
+    };
+  }
+  if (error instanceof CircuitOpenError) {
+    return { category: 'circuit_open', status: null, message };
+  }
+  if (error instanceof DecimalsError) {
+    return { category: 'invalid_decimals', status: null, message };
+  }
+  if (error instanceof ParseError || error instanceof SyntaxError) {
+    return { category: 'parse_failure', status: null, message };
+  }
+
+  const name = error instanceof Error ? error.name : '';
+  if (name === 'TimeoutError' || name === 'AbortError' || /timeout|aborted/i.test(message)) {
+    return { category: 'timeout', status: null, message };
+  }
+  if (/fetch failed|network|ECONNRESET|ECONNREFUSED|ENOTFOUND/i.test(message)) {
+    return { category: 'network', status: null, message };
+  }
+
+  return { category: 'unknown', status: null, message };
+}
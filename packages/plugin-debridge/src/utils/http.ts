@@ -1,49 +1,176 @@
 import Bottleneck from 'bottleneck';
+import { createHttpError, HttpError, parseRetryAfter, ParseError, RateLimitedError, TimeoutError } from './errors';
 
 /**
- * HTTP utilities with rate limiting and retry logic
- * Production-grade patterns for API resilience
+ * HTTP client with per-upstream rate limiting and retry logic
+ * Rates adapt to 429s (AIMD) so bursts back off instead of failing
  */
-export class HttpUtils {
-  private static limiter = new Bottleneck({
-    maxConcurrent: 5,
-    minTime: 200, // 200ms between requests (5 req/sec)
-  });
-
-  // Store the last applied limiter configuration for diagnostics/tests
-  private static lastConfig: { maxConcurrent: number; minTime: number } | null = {
-    maxConcurrent: 5,
-    minTime: 200,
-  };
+
+// Upstream APIs with separate budgets
+export type Upstream = 'dln' | 'tokenList' | 'dlnStats' | 'defillama';
+
+export interface UpstreamProfile {
+  maxConcurrent: number; // requests in flight at once
+  requestsPerSecond: number; // every attempt, including retries, counts against it
+  timeoutMs: number; // per attempt
+  maxRetries: number;
+  retryBaseDelayMs: number; // exponential backoff base
+}
+
+export type UpstreamProfiles = Partial<Record<Upstream, Partial<UpstreamProfile>>>;
+
+export const DEFAULT_UPSTREAM_PROFILES: Record<Upstream, UpstreamProfile> = {
+  // Quotes and supported chains - the budget deBridge grants the API key
+  dln: { maxConcurrent: 5, requestsPerSecond: 10, timeoutMs: 30000, maxRetries: 3, retryBaseDelayMs: 1000 },
+  // Per-chain token lists, cached for minutes; kept off the quote budget
+  tokenList: { maxConcurrent: 2, requestsPerSecond: 2, timeoutMs: 30000, maxRetries: 2, retryBaseDelayMs: 1000 },
+  // DLN stats API (orders), a separate host
+  dlnStats: { maxConcurrent: 3, requestsPerSecond: 5, timeoutMs: 30000, maxRetries: 3, retryBaseDelayMs: 1000 },
+  // DefiLlama bridges and coins APIs
+  defillama: { maxConcurrent: 3, requestsPerSecond: 5, timeoutMs: 30000, maxRetries: 3, retryBaseDelayMs: 1000 },
+};
+
+// AIMD throttling: halve the rate on a 429, win it back in small steps on success
+const RATE_DECREASE_FACTOR = 0.5;
+const RATE_INCREASE_FRACTION = 0.05; // of the configured rate, per successful response
+const RATE_DECREASE_COOLDOWN_MS = 1000; // a burst of 429s counts as one signal
+const MIN_REQUESTS_PER_SECOND = 0.5;
+
+// Longest Retry-After worth waiting out (further capped by the profile's timeout); beyond it requests fail fast
+const MAX_RETRY_AFTER_WAIT_MS = 5000;
+
+export interface UpstreamRate {
+  upstream: Upstream;
+  configuredRequestsPerSecond: number;
+  effectiveRequestsPerSecond: number;
+  pausedUntil: number | null; // epoch ms, while honoring a Retry-After
+}
+
+interface RateState {
+  requestsPerSecond: number;
+  lastDecreaseAt: number;
+  pausedUntil: number;
+}
+
+// Request lanes, served in this order when an upstream's budget is contended
+export type RequestLane = 'interactive' | 'liquidity' | 'background';
+
+// Bottleneck job priority of each lane (0 = served first)
+const LANE_PRIORITIES: Record<RequestLane, number> = {
+  interactive: 1, // rate quotes, lookups
+  liquidity: 4, // depth search probes
+  background: 7, // intelligence probes, aggregate volumes
+};
+
+export type RequestOptions = RequestInit & { lane?: RequestLane };
+
+export type AttemptCallback = (attempt: { attempt: number; latencyMs: number; status: number | null }) => void;
+
+export class HttpClient {
+  private readonly profiles: Record<Upstream, UpstreamProfile>;
+  private readonly limiters: Record<Upstream, Bottleneck>;
+  private readonly rateStates: Record<Upstream, RateState>;
+
+  constructor(overrides: UpstreamProfiles = {}) {
+    const upstreams = Object.keys(DEFAULT_UPSTREAM_PROFILES) as Upstream[];
+    this.profiles = Object.fromEntries(
+      upstreams.map((upstream) => [upstream, { ...DEFAULT_UPSTREAM_PROFILES[upstream], ...overrides[upstream] }])
+    ) as Record<Upstream, UpstreamProfile>;
+    this.limiters = Object.fromEntries(
+      upstreams.map((upstream) => {
+        const profile = this.profiles[upstream];
+        return [upstream, new Bottleneck({
+          maxConcurrent: profile.maxConcurrent,
+          minTime: Math.ceil(1000 / profile.requestsPerSecond),
+        })];
+      })
+    ) as Record<Upstream, Bottleneck>;
+    this.rateStates = Object.fromEntries(
+      upstreams.map((upstream) => [
+        upstream,
+        { requestsPerSecond: this.profiles[upstream].requestsPerSecond, lastDecreaseAt: 0, pausedUntil: 0 },
+      ])
+    ) as Record<Upstream, RateState>;
+  }
 
   /**
-   * Configure the internal rate limiter. Call this early during plugin initialization
-   * to apply env-driven rate limits.
+   * Effective settings of an upstream profile (useful for tests and diagnostics)
    */
-  static configure(options: { maxConcurrent?: number; minTime?: number }) {
-    const cfg = {
-      maxConcurrent: options.maxConcurrent ?? 5,
-      minTime: options.minTime ?? 200,
-    };
-    this.limiter = new Bottleneck(cfg);
-    this.lastConfig = cfg;
+  profile(upstream: Upstream): UpstreamProfile {
+    return { ...this.profiles[upstream] };
   }
 
   /**
-   * Return the last applied limiter settings (useful for tests and diagnostics).
+   * Configured and current (adaptive) request rate of every upstream
    */
-  static getLimiterConfig() {
-    return this.lastConfig;
+  rates(): UpstreamRate[] {
+    const now = Date.now();
+    return (Object.keys(this.rateStates) as Upstream[]).map((upstream) => {
+      const state = this.rateStates[upstream];
+      return {
+        upstream,
+        configuredRequestsPerSecond: this.profiles[upstream].requestsPerSecond,
+        effectiveRequestsPerSecond: state.requestsPerSecond,
+        pausedUntil: state.pausedUntil > now ? state.pausedUntil : null,
+      };
+    });
   }
 
   /**
-   * Fetch with exponential backoff, jitter, and rate limiting
+   * Single rate-limited attempt with the profile's timeout; the caller handles status and retries.
+   * Queued requests are served by lane priority (interactive by default), then in arrival order.
+   *
+   * @throws TimeoutError when the upstream does not answer within timeoutMs
+   * @throws RateLimitedError when the upstream asked us to back off for longer than we are willing to wait
    */
-  static async fetchWithRetry<T>(
+  async send(upstream: Upstream, url: string, options: RequestOptions = {}): Promise<Response> {
+    const { timeoutMs } = this.profiles[upstream];
+    const { lane = 'interactive', ...init } = options;
+
+    return this.limiters[upstream].schedule({ priority: LANE_PRIORITIES[lane] }, async () => {
+      // Hold the slot while the upstream asked us to back off, unless that would stall the lane
+      const pauseMs = this.rateStates[upstream].pausedUntil - Date.now();
+      if (pauseMs > this.maxRetryAfterWaitMs(upstream)) {
+        throw new RateLimitedError(url, pauseMs, `HTTP 429: ${upstream} is paused for another ${Math.ceil(pauseMs / 1000)}s`);
+      }
+      if (pauseMs > 0) await this.sleep(pauseMs);
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await fetch(url, { ...init, signal: controller.signal });
+        if (response.status === 429) {
+          this.onRateLimited(upstream, parseRetryAfter(response.headers.get('retry-after')));
+        } else if (response.ok) {
+          this.onSuccess(upstream);
+        }
+        return response;
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new TimeoutError(`Request to ${url} timed out after ${timeoutMs}ms`);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    });
+  }
+
+  /**
+   * Fetch JSON with exponential backoff and jitter; every attempt goes through the upstream's limiter.
+   * 401/403, other 4xx and unparseable responses are thrown at once without retrying.
+   *
+   * @param maxRetries - Defaults to the profile's maxRetries
+   * @param baseDelay - Defaults to the profile's retryBaseDelayMs
+   * @param onAttempt - Optional callback invoked after every HTTP attempt (for provenance tracking)
+   */
+  async fetchWithRetry<T>(
+    upstream: Upstream,
     url: string,
-    options: RequestInit = {},
-    maxRetries = 3,
-    baseDelay = 1000
+    options: RequestOptions = {},
+    maxRetries = this.profiles[upstream].maxRetries,
+    baseDelay = this.profiles[upstream].retryBaseDelayMs,
+    onAttempt?: AttemptCallback
   ): Promise<T> {
     if (!url || typeof url !== 'string') {
       throw new Error('Valid URL is required');
@@ -60,79 +187,134 @@ export class HttpUtils {
       throw new Error(`Invalid URL format: ${url}`);
     }
 
-    return this.limiter.schedule(async () => {
-      let lastError: Error;
+    let lastError: Error;
 
-      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      const startedAt = Date.now();
+      try {
+        let response: Response;
         try {
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
-
-          const response = await fetch(url, {
+          response = await this.send(upstream, url, {
             ...options,
-            signal: controller.signal,
             headers: {
               'Content-Type': 'application/json',
               ...options.headers,
             },
           });
+        } catch (error) {
+          onAttempt?.({ attempt: attempt + 1, latencyMs: Date.now() - startedAt, status: null });
+          throw error;
+        }
 
-          clearTimeout(timeoutId);
-
-          if (!response.ok) {
-            // Handle rate limiting specially
-            if (response.status === 429) {
-              const retryAfter = response.headers.get('retry-after');
-              const delay = retryAfter ? parseInt(retryAfter) * 1000 : this.calculateBackoffDelay(attempt, baseDelay);
-              
-              if (attempt < maxRetries) {
-                await this.sleep(delay);
-                continue;
-              }
-            }
-            
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-          }
+        onAttempt?.({ attempt: attempt + 1, latencyMs: Date.now() - startedAt, status: response.status });
 
-          try {
-            const contentType = response.headers.get('content-type');
-            if (!contentType?.includes('application/json')) {
-              throw new Error('Response is not JSON');
-            }
-          } catch {
-            throw new Error('Invalid response headers');
+        if (!response.ok) {
+          const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+
+          // Handle rate limiting specially
+          if (response.status === 429 && attempt < maxRetries && (retryAfterMs ?? 0) <= this.maxRetryAfterWaitMs(upstream)) {
+            await this.sleep(retryAfterMs ?? this.calculateBackoffDelay(attempt, baseDelay));
+            continue;
           }
 
-          return await response.json() as T;
-        } catch (error) {
-          lastError = error instanceof Error ? error : new Error(String(error));
-          
-          if (attempt < maxRetries) {
-            const delay = this.calculateBackoffDelay(attempt, baseDelay);
-            await this.sleep(delay);
+          throw createHttpError(response.status, url, `HTTP ${response.status}: ${response.statusText}`, retryAfterMs);
+        }
+
+        try {
+          const contentType = response.headers.get('content-type');
+          if (!contentType?.includes('application/json')) {
+            throw new ParseError('Response is not JSON');
           }
+        } catch {
+          throw new ParseError('Invalid response headers');
+        }
+
+        return await response.json() as T;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        // A rejected request or malformed payload fails the same way on every attempt
+        if (!this.isRetryable(upstream, lastError)) throw lastError;
+
+        if (attempt < maxRetries) {
+          const delay = this.calculateBackoffDelay(attempt, baseDelay);
+          await this.sleep(delay);
         }
       }
+    }
 
-      throw new Error(`Request failed after ${maxRetries + 1} attempts: ${lastError!.message}`);
-    });
+    const message = `Request failed after ${maxRetries + 1} attempts: ${lastError!.message}`;
+    // Preserve the error type and upstream status so callers can classify the failure
+    if (lastError! instanceof HttpError) {
+      const retryAfterMs = lastError instanceof RateLimitedError ? lastError.retryAfterMs : null;
+      throw createHttpError(lastError.status, url, message, retryAfterMs);
+    }
+    if (lastError! instanceof ParseError) {
+      throw new ParseError(message);
+    }
+    if (lastError! instanceof TimeoutError) {
+      throw new TimeoutError(message);
+    }
+    throw new Error(message);
+  }
+
+  /**
+   * Only 429 (with a Retry-After we can wait out), 5xx, timeouts and network errors are worth another attempt
+   */
+  private isRetryable(upstream: Upstream, error: Error): boolean {
+    if (error instanceof RateLimitedError) return (error.retryAfterMs ?? 0) <= this.maxRetryAfterWaitMs(upstream);
+    if (error instanceof HttpError) return error.status === 429 || error.status >= 500;
+    return !(error instanceof ParseError);
+  }
+
+  private maxRetryAfterWaitMs(upstream: Upstream): number {
+    return Math.min(this.profiles[upstream].timeoutMs, MAX_RETRY_AFTER_WAIT_MS);
+  }
+
+  /**
+   * Multiplicative decrease, at most once per cooldown, plus a pause for Retry-After
+   */
+  private onRateLimited(upstream: Upstream, retryAfterMs: number | null): void {
+    const state = this.rateStates[upstream];
+    const now = Date.now();
+    if (retryAfterMs !== null) {
+      state.pausedUntil = Math.max(state.pausedUntil, now + retryAfterMs);
+    }
+    if (now - state.lastDecreaseAt < RATE_DECREASE_COOLDOWN_MS) return;
+
+    state.lastDecreaseAt = now;
+    const floor = Math.min(MIN_REQUESTS_PER_SECOND, this.profiles[upstream].requestsPerSecond);
+    this.setRate(upstream, Math.max(floor, state.requestsPerSecond * RATE_DECREASE_FACTOR));
+  }
+
+  /**
+   * Additive increase back towards the configured rate
+   */
+  private onSuccess(upstream: Upstream): void {
+    const configured = this.profiles[upstream].requestsPerSecond;
+    const state = this.rateStates[upstream];
+    if (state.requestsPerSecond >= configured) return;
+    this.setRate(upstream, Math.min(configured, state.requestsPerSecond + configured * RATE_INCREASE_FRACTION));
+  }
+
+  private setRate(upstream: Upstream, requestsPerSecond: number): void {
+    this.rateStates[upstream].requestsPerSecond = requestsPerSecond;
+    this.limiters[upstream].updateSettings({ minTime: Math.ceil(1000 / requestsPerSecond) });
   }
 
   /**
    * Calculate exponential backoff with jitter
    */
-  private static calculateBackoffDelay(attempt: number, baseDelay: number): number {
+  calculateBackoffDelay(attempt: number, baseDelay: number): number {
     if (typeof attempt !== 'number' || typeof baseDelay !== 'number' || attempt < 0 || baseDelay < 0) {
       return 1000; // Safe fallback
     }
-    
+
     const exponentialDelay = baseDelay * Math.pow(2, Math.min(attempt, 10)); // Cap attempt
     const jitter = Math.random() * 0.1 * exponentialDelay;
     return Math.min(exponentialDelay + jitter, 30000); // Cap at 30 seconds
   }
 
-  private static sleep(ms: number): Promise<void> {
+  private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 }
-
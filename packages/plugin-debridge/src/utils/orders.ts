@@ -0,0 +1,235 @@
+import { HttpClient } from './http';
+import { HttpError, ParseError } from './errors';
+import type { ProvenanceTracker } from './provenance';
+
+/**
+ * DLN stats API client
+ * Pages through orders created in a time window (POST /api/Orders/filteredList)
+ * and looks up single orders for status tracking
+ */
+
+export interface DeBridgeOrder {
+  orderId: string;
+  giveChainId: string;
+  takeChainId: string;
+  giveTokenAddress: string;
+  takeTokenAddress: string;
+  giveAmount: string; // smallest units of the give token
+  takeAmount: string; // smallest units of the take token
+  giveDecimals: number | null;
+  takeDecimals: number | null;
+  giveSymbol: string | null;
+  takeSymbol: string | null;
+  createdAt: string;
+  status: string; // upstream DLN state, e.g. "ClaimedUnlock"
+  sourceTxHash: string | null;
+  fulfillTxHash: string | null;
+  fulfilledAt: string | null;
+}
+
+export interface OrderPage {
+  orders: DeBridgeOrder[];
+  truncated: boolean; // stopped at maxPages before reaching totalCount
+}
+
+// Orders whose take side was delivered
+const FULFILLED_STATES = ['Fulfilled', 'SentUnlock', 'ClaimedUnlock'];
+
+// The stats API wraps scalars as { stringValue, bigIntegerValue } in most places
+type WrappedValue = string | number | { stringValue?: string; bigIntegerValue?: number | string } | null | undefined;
+
+interface RawOffer {
+  chainId?: WrappedValue;
+  tokenAddress?: WrappedValue;
+  amount?: WrappedValue;
+  finalAmount?: WrappedValue;
+  metadata?: { decimals?: number; symbol?: string } | null;
+}
+
+interface RawEventMetadata {
+  transactionHash?: WrappedValue;
+  blockTimestamp?: number;
+}
+
+interface RawOrder {
+  orderId?: WrappedValue;
+  creationTimestamp?: number;
+  state?: string;
+  giveOfferWithMetadata?: RawOffer;
+  takeOfferWithMetadata?: RawOffer;
+  createdSrcEventMetadata?: RawEventMetadata | null;
+  fulfilledDstEventMetadata?: RawEventMetadata | null;
+}
+
+interface FilteredListResponse {
+  orders?: RawOrder[];
+  totalCount?: number;
+}
+
+function unwrap(value: WrappedValue): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'string' || typeof value === 'number') return String(value);
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.bigIntegerValue !== undefined) return String(value.bigIntegerValue);
+  return undefined;
+}
+
+export class DlnOrdersClient {
+  static readonly DEFAULT_BASE_URL = 'https://stats-api.dln.trade';
+  static readonly ORDERS_ENDPOINT = '/api/Orders/filteredList';
+  static readonly ORDER_ENDPOINT = '/api/Orders';
+  static readonly TX_ORDERS_ENDPOINT = '/api/Transaction';
+
+  private readonly baseUrl: string;
+
+  constructor(
+    baseUrl: string = DlnOrdersClient.DEFAULT_BASE_URL,
+    private readonly pageSize = 100,
+    private readonly maxPages = 50,
+    private readonly http: HttpClient = new HttpClient()
+  ) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  /**
+   * Fulfilled orders created within [from, to)
+   */
+  async listFulfilledOrders(from: Date, to: Date, tracker?: ProvenanceTracker): Promise<OrderPage> {
+    const endpoint = DlnOrdersClient.ORDERS_ENDPOINT;
+    const orders: DeBridgeOrder[] = [];
+    let totalCount = Infinity;
+
+    for (let page = 0; page < this.maxPages && orders.length < totalCount; page++) {
+      let attempts = 0;
+      let latencyMs = 0;
+      let response: FilteredListResponse;
+      try {
+        response = await this.http.fetchWithRetry<FilteredListResponse>(
+          'dlnStats',
+          `${this.baseUrl}${endpoint}`,
+          {
+            method: 'POST',
+            body: JSON.stringify({
+              skip: page * this.pageSize,
+              take: this.pageSize,
+              orderStates: FULFILLED_STATES,
+              creationTimestampFrom: Math.floor(from.getTime() / 1000),
+              creationTimestampTo: Math.floor(to.getTime() / 1000),
+              filterMode: 'Mixed',
+            }),
+            lane: 'background', // volume aggregation
+          },
+          undefined,
+          undefined,
+          (attempt) => {
+            attempts++;
+            latencyMs = attempt.latencyMs;
+          }
+        );
+      } finally {
+        if (attempts > 0) tracker?.recordCall(endpoint, attempts, latencyMs);
+      }
+
+      if (!Array.isArray(response?.orders)) {
+        throw new ParseError('DLN order list response missing orders');
+      }
+      if (typeof response.totalCount === 'number') totalCount = response.totalCount;
+
+      for (const raw of response.orders) {
+        const order = this.parseOrder(raw);
+        if (order) orders.push(order);
+      }
+      if (response.orders.length < this.pageSize) {
+        totalCount = orders.length;
+        break;
+      }
+    }
+
+    return { orders, truncated: orders.length < totalCount };
+  }
+
+  /**
+   * Single order by id, or null when the stats API does not know it (yet)
+   */
+  async getOrder(orderId: string, tracker?: ProvenanceTracker): Promise<DeBridgeOrder | null> {
+    const endpoint = DlnOrdersClient.ORDER_ENDPOINT;
+    const raw = await this.get<RawOrder>(`${endpoint}/${encodeURIComponent(orderId)}`, endpoint, tracker);
+    if (raw === null) return null;
+
+    const order = this.parseOrder(raw);
+    if (!order) {
+      throw new ParseError('DLN order response missing required fields');
+    }
+    return order;
+  }
+
+  /**
+   * Ids of the orders created by a source-chain transaction
+   */
+  async getOrderIdsByTransaction(txHash: string, tracker?: ProvenanceTracker): Promise<string[]> {
+    const endpoint = DlnOrdersClient.TX_ORDERS_ENDPOINT;
+    const raw = await this.get<{ orderIds?: WrappedValue[] }>(
+      `${endpoint}/${encodeURIComponent(txHash)}/orderIds`,
+      endpoint,
+      tracker
+    );
+    return (raw?.orderIds ?? []).map(unwrap).filter((id): id is string => Boolean(id));
+  }
+
+  // GET with provenance tracking; 404 means "not found" rather than a failure.
+  // Lookups are interactive, so retry once and quickly.
+  private async get<T>(path: string, endpoint: string, tracker?: ProvenanceTracker): Promise<T | null> {
+    let attempts = 0;
+    let latencyMs = 0;
+    try {
+      return await this.http.fetchWithRetry<T>(
+        'dlnStats',
+        `${this.baseUrl}${path}`,
+        { lane: 'interactive' },
+        1,
+        250,
+        (attempt) => {
+          attempts++;
+          latencyMs = attempt.latencyMs;
+        }
+      );
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 404) return null;
+      throw error;
+    } finally {
+      if (attempts > 0) tracker?.recordCall(endpoint, attempts, latencyMs);
+    }
+  }
+
+  private parseOrder(raw: RawOrder): DeBridgeOrder | null {
+    const give = raw?.giveOfferWithMetadata;
+    const take = raw?.takeOfferWithMetadata;
+    const orderId = unwrap(raw?.orderId);
+    const giveChainId = unwrap(give?.chainId);
+    const takeChainId = unwrap(take?.chainId);
+    const giveAmount = unwrap(give?.amount) ?? unwrap(give?.finalAmount);
+    const takeAmount = unwrap(take?.amount) ?? unwrap(take?.finalAmount);
+    if (!orderId || !giveChainId || !takeChainId || !giveAmount || !takeAmount) return null;
+
+    return {
+      orderId,
+      giveChainId,
+      takeChainId,
+      giveTokenAddress: unwrap(give?.tokenAddress) ?? '',
+      takeTokenAddress: unwrap(take?.tokenAddress) ?? '',
+      giveAmount,
+      takeAmount,
+      giveDecimals: give?.metadata?.decimals ?? null,
+      takeDecimals: take?.metadata?.decimals ?? null,
+      giveSymbol: give?.metadata?.symbol ?? null,
+      takeSymbol: take?.metadata?.symbol ?? null,
+      createdAt: new Date((raw.creationTimestamp ?? 0) * 1000).toISOString(),
+      status: raw.state ?? 'unknown',
+      sourceTxHash: unwrap(raw.createdSrcEventMetadata?.transactionHash) ?? null,
+      fulfillTxHash: unwrap(raw.fulfilledDstEventMetadata?.transactionHash) ?? null,
+      fulfilledAt: raw.fulfilledDstEventMetadata?.blockTimestamp
+        ? new Date(raw.fulfilledDstEventMetadata.blockTimestamp * 1000).toISOString()
+        : null,
+    };
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Bounded-concurrency worker pool
+ * Runs independent upstream work side by side without flooding the rate limiter's queue
+ */
+
+/**
+ * Map items through an async worker with at most `concurrency` calls in flight.
+ * Results keep the input order; the first worker failure rejects the whole map.
+ * Once `signal` aborts no further items are started and the map rejects with its reason.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        signal?.throwIfAborted();
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        next = items.length; // stop handing out work
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(Math.floor(concurrency), items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return results;
+}
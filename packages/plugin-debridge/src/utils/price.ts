@@ -0,0 +1,148 @@
+import { TTLCache } from './cache';
+import { HttpClient } from './http';
+import type { ProvenanceTracker } from './provenance';
+import { isNativeAsset, normalizeAddress } from './chains';
+
+/**
+ * USD price oracle
+ * Converts USD sizes into token units and values fees charged in tokens without a quoted USD value
+ */
+
+export { NATIVE_TOKEN_ADDRESS } from './chains';
+
+export interface TokenRef {
+  chainId: string;
+  address: string; // nativeAssetIdOf(chainId) = chain native gas token
+}
+
+export interface TokenPrice {
+  priceUsd: number; // per whole token
+  decimals: number | null; // null when the oracle does not report them
+  source: string; // endpoint the price came from
+}
+
+/**
+ * Pluggable price source - swap in a stub for local development or tests
+ */
+export interface PriceProvider {
+  /**
+   * Look up USD prices; tokens without a price are absent from the result
+   */
+  getUsdPrices(tokens: TokenRef[], tracker?: ProvenanceTracker): Promise<Map<string, TokenPrice>>;
+}
+
+/**
+ * Lookup key for a token in a price map
+ */
+export function priceKey(token: TokenRef): string {
+  return `${token.chainId}:${normalizeAddress(token.chainId, token.address)}`;
+}
+
+// deBridge chain id -> DefiLlama chain slug and native coin
+const LLAMA_CHAINS: Record<string, { chain: string; native: string; nativeDecimals: number }> = {
+  '1': { chain: 'ethereum', native: 'coingecko:ethereum', nativeDecimals: 18 },
+  '10': { chain: 'optimism', native: 'coingecko:ethereum', nativeDecimals: 18 },
+  '56': { chain: 'bsc', native: 'coingecko:binancecoin', nativeDecimals: 18 },
+  '137': { chain: 'polygon', native: 'coingecko:polygon-ecosystem-token', nativeDecimals: 18 },
+  '8453': { chain: 'base', native: 'coingecko:ethereum', nativeDecimals: 18 },
+  '42161': { chain: 'arbitrum', native: 'coingecko:ethereum', nativeDecimals: 18 },
+  '43114': { chain: 'avax', native: 'coingecko:avalanche-2', nativeDecimals: 18 },
+  '59144': { chain: 'linea', native: 'coingecko:ethereum', nativeDecimals: 18 },
+  '7565164': { chain: 'solana', native: 'coingecko:solana', nativeDecimals: 9 },
+};
+
+interface DefiLlamaPricesResponse {
+  coins: Record<string, { price: number; decimals?: number; symbol?: string; timestamp?: number }>;
+}
+
+/**
+ * DefiLlama coins API price provider
+ * Batches lookups into one request and caches prices per token
+ */
+export class DefiLlamaPriceProvider implements PriceProvider {
+  static readonly DEFAULT_BASE_URL = 'https://coins.llama.fi';
+  static readonly PRICES_ENDPOINT = '/prices/current';
+
+  private readonly baseUrl: string;
+  private readonly cache: TTLCache<string, TokenPrice>;
+
+  constructor(
+    baseUrl: string = DefiLlamaPriceProvider.DEFAULT_BASE_URL,
+    ttlMs = 60 * 1000,
+    private readonly http: HttpClient = new HttpClient()
+  ) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.cache = new TTLCache(ttlMs);
+  }
+
+  async getUsdPrices(tokens: TokenRef[], tracker?: ProvenanceTracker): Promise<Map<string, TokenPrice>> {
+    const endpoint = DefiLlamaPriceProvider.PRICES_ENDPOINT;
+    const prices = new Map<string, TokenPrice>();
+    // coin id -> tokens it prices (native coins are shared across L2s)
+    const missing = new Map<string, Array<{ key: string; nativeDecimals: number | null }>>();
+
+    for (const token of tokens) {
+      const key = priceKey(token);
+      if (prices.has(key)) continue;
+
+      const cached = this.cache.get(key);
+      if (cached) {
+        tracker?.recordCacheHit(endpoint);
+        prices.set(key, cached);
+        continue;
+      }
+
+      const chain = LLAMA_CHAINS[token.chainId];
+      if (!chain) continue; // chain not covered by the oracle
+      const isNative = isNativeAsset(token.chainId, token.address);
+      const coinId = isNative ? chain.native : `${chain.chain}:${token.address}`;
+      const pending = missing.get(coinId) ?? [];
+      pending.push({ key, nativeDecimals: isNative ? chain.nativeDecimals : null });
+      missing.set(coinId, pending);
+    }
+
+    if (missing.size === 0) return prices;
+    tracker?.recordCacheMiss();
+
+    let attempts = 0;
+    let latencyMs = 0;
+    let response: DefiLlamaPricesResponse;
+    try {
+      response = await this.http.fetchWithRetry<DefiLlamaPricesResponse>(
+        'defillama',
+        `${this.baseUrl}${endpoint}/${[...missing.keys()].join(',')}`,
+        { lane: 'interactive' }, // sizes USD notionals and values fees
+        undefined,
+        undefined,
+        (attempt) => {
+          attempts++;
+          latencyMs = attempt.latencyMs;
+        }
+      );
+    } finally {
+      if (attempts > 0) tracker?.recordCall(endpoint, attempts, latencyMs);
+    }
+
+    // DefiLlama may echo EVM coin ids in a different case
+    const coins = new Map(
+      Object.entries(response?.coins ?? {}).map(([coinId, coin]) => [coinId.toLowerCase(), coin])
+    );
+
+    for (const [coinId, pending] of missing) {
+      const coin = coins.get(coinId.toLowerCase());
+      if (!coin || !Number.isFinite(coin.price) || coin.price <= 0) continue;
+
+      for (const { key, nativeDecimals } of pending) {
+        const price: TokenPrice = {
+          priceUsd: coin.price,
+          decimals: nativeDecimals ?? coin.decimals ?? null,
+          source: endpoint,
+        };
+        this.cache.set(key, price);
+        prices.set(key, price);
+      }
+    }
+
+    return prices;
+  }
+}
@@ -0,0 +1,65 @@
+import type { PerformanceTimer } from './logger';
+
+/**
+ * Provenance tracker - accumulates upstream call and cache statistics for one snapshot
+ * Lets consumers judge data freshness before publishing it
+ */
+export class ProvenanceTracker {
+  private readonly endpoints = new Set<string>();
+  private upstreamCalls = 0;
+  private retries = 0;
+  private upstreamLatencyMs = 0;
+  private cacheHits = 0;
+  private cacheMisses = 0;
+
+  /**
+   * Record a (possibly retried) upstream request
+   * @param attempts - HTTP attempts made, including the first one
+   */
+  recordCall(endpoint: string, attempts: number, latencyMs: number): void {
+    this.endpoints.add(endpoint);
+    this.upstreamCalls += attempts;
+    this.retries += Math.max(0, attempts - 1);
+    this.upstreamLatencyMs += latencyMs;
+  }
+
+  /**
+   * Record a response served from a local cache
+   */
+  recordCacheHit(endpoint: string): void {
+    this.endpoints.add(endpoint);
+    this.cacheHits++;
+  }
+
+  /**
+   * Record a cache lookup that had to go upstream
+   */
+  recordCacheMiss(): void {
+    this.cacheMisses++;
+  }
+
+  /**
+   * Summarize the collected statistics
+   */
+  summary(timer: PerformanceTimer): {
+    sourceEndpoints: string[];
+    totalUpstreamCalls: number;
+    totalRetries: number;
+    upstreamLatencyMs: number;
+    cacheHits: number;
+    cacheMisses: number;
+    elapsedMs: number;
+    generatedAt: string;
+  } {
+    return {
+      sourceEndpoints: [...this.endpoints].sort(),
+      totalUpstreamCalls: this.upstreamCalls,
+      totalRetries: this.retries,
+      upstreamLatencyMs: this.upstreamLatencyMs,
+      cacheHits: this.cacheHits,
+      cacheMisses: this.cacheMisses,
+      elapsedMs: timer.elapsed(),
+      generatedAt: new Date().toISOString(),
+    };
+  }
+}
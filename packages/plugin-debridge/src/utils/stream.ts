@@ -0,0 +1,60 @@
+/**
+ * Async Event Queue - bridges callback-style producers into an AsyncGenerator
+ * Producers push events as work completes; a single consumer drains them in order
+ */
+export class AsyncEventQueue<T> {
+  private buffer: T[] = [];
+  private closed = false;
+  private failure: unknown = undefined;
+  private notify: (() => void) | null = null;
+
+  /**
+   * Enqueue an event for the consumer
+   */
+  push(event: T): void {
+    if (this.closed) return;
+    this.buffer.push(event);
+    this.wake();
+  }
+
+  /**
+   * Signal that no more events will be pushed
+   */
+  close(): void {
+    this.closed = true;
+    this.wake();
+  }
+
+  /**
+   * Terminate the stream with an error (raised after buffered events drain)
+   */
+  fail(error: unknown): void {
+    this.failure = error ?? new Error('Stream failed');
+    this.closed = true;
+    this.wake();
+  }
+
+  /**
+   * Yield buffered events, waiting for producers until the queue is closed
+   */
+  async *drain(): AsyncGenerator<T> {
+    while (true) {
+      if (this.buffer.length > 0) {
+        yield this.buffer.shift()!;
+        continue;
+      }
+      if (this.failure !== undefined) throw this.failure;
+      if (this.closed) return;
+
+      await new Promise<void>((resolve) => {
+        this.notify = resolve;
+      });
+    }
+  }
+
+  private wake(): void {
+    const notify = this.notify;
+    this.notify = null;
+    notify?.();
+  }
+}